@@ -0,0 +1,52 @@
+/**
+ * Authentication for the backend API
+ * The backend talks to the database with the service-role key, which bypasses
+ * row level security, so every API request must carry the caller's Supabase
+ * access token (`Authorization: Bearer <token>`). The token is verified with
+ * Supabase Auth and the user is attached to the request; routes then only
+ * return workflows, runs, jobs and credentials whose `user_id` is that user.
+ */
+import { createClient } from '@supabase/supabase-js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+const getBearerToken = (authorization) => {
+  const match = /^Bearer\s+(.+)$/i.exec(authorization || '');
+  return match ? match[1].trim() : null;
+};
+
+// Verify the request's access token and set `req.user`; responds 401 otherwise
+export const requireAuth = async (req, res, next) => {
+  const token = getBearerToken(req.headers.authorization);
+  if (!token) {
+    return res.status(401).json({ error: 'Authorization header required' });
+  }
+
+  try {
+    const { data, error } = await supabase.auth.getUser(token);
+    if (error || !data?.user) {
+      return res.status(401).json({ error: 'Invalid or expired access token' });
+    }
+
+    req.user = data.user;
+    next();
+  } catch (error) {
+    console.error('Error verifying access token:', error.message);
+    res.status(500).json({ error: 'Failed to verify access token' });
+  }
+};
+
+/**
+ * Whether `row` belongs to the signed-in user. Rows of other users are
+ * reported as not found so their ids can't be probed.
+ */
+export const isOwnedBy = (row, user) => Boolean(row && user && row.user_id === user.id);
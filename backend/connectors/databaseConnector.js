@@ -1,46 +1,226 @@
 /**
- * Database Connector for database operations
- * Note: This is a simulation. In production, you would connect to actual databases
- * using appropriate drivers (pg for PostgreSQL, mysql2 for MySQL, etc.)
+ * Database Connector for PostgreSQL
+ * Runs either a Custom Query with bound parameters ($1, $2, ...) or SQL
+ * generated for the Insert/Update/Delete/Select operations from `table`,
+ * `values` and `where`. Upstream data only ever reaches the database as
+ * parameters; identifiers in generated SQL are quoted. Rows are returned as
+ * the node's output, read through a cursor so no more than maxRows are loaded.
  */
+import pg from 'pg';
+import Cursor from 'pg-cursor';
+import { TimeoutError, ValidationError, WorkflowError, classifyError } from '../errors.js';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const MAX_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_ROWS = 1000;
+const MAX_ROWS_LIMIT = 10000;
+const CONNECT_TIMEOUT_MS = 10000;
+
+export const CUSTOM_QUERY = 'Custom Query';
+
+const toPositiveInteger = (value, fallback, max) => {
+  const number = parseInt(value, 10);
+  return Number.isFinite(number) && number > 0 ? Math.min(number, max) : fallback;
+};
+
+// Quote a possibly schema-qualified identifier ("schema"."table")
+export const quoteIdentifier = (identifier) => {
+  if (typeof identifier !== 'string' || identifier.trim() === '') {
+    throw new ValidationError('Table and column names must be non-empty strings');
+  }
+
+  return identifier
+    .split('.')
+    .map(part => {
+      if (part === '' || part.includes('\0')) {
+        throw new ValidationError(`Invalid identifier "${identifier}"`);
+      }
+      return `"${part.replace(/"/g, '""')}"`;
+    })
+    .join('.');
+};
+
+const asObject = (value, label) => {
+  if (value === undefined || value === null || value === '') {
+    return {};
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError(`${label} must be a JSON object of column names to values`);
+  }
+  return value;
+};
+
+// WHERE clause of column = value conditions (null matches IS NULL)
+const buildWhere = (where, params) => {
+  const conditions = Object.entries(where).map(([column, value]) => {
+    if (value === null) {
+      return `${quoteIdentifier(column)} IS NULL`;
+    }
+    params.push(value);
+    return `${quoteIdentifier(column)} = $${params.length}`;
+  });
+
+  return conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+};
+
+/**
+ * SQL and parameters for the simple operations. Update and Delete require a
+ * WHERE so a missing condition can't change every row in the table.
+ */
+export const buildQuery = ({ operation, table, values, where, maxRows = DEFAULT_MAX_ROWS }) => {
+  const tableName = quoteIdentifier(table);
+  const conditions = asObject(where, 'Where');
+  const params = [];
+
+  switch (operation) {
+    case 'Select': {
+      const whereClause = buildWhere(conditions, params);
+      // One row past the cap tells us the result was truncated
+      return { text: `SELECT * FROM ${tableName}${whereClause} LIMIT ${maxRows + 1}`, params };
+    }
+    case 'Insert': {
+      const rows = Array.isArray(values) ? values : [asObject(values, 'Values')];
+      if (rows.length === 0 || Object.keys(rows[0]).length === 0) {
+        throw new ValidationError('Values are required for Insert');
+      }
+      const columns = Object.keys(rows[0]);
+      const tuples = rows.map(row => {
+        const record = asObject(row, 'Each row in Values');
+        return `(${columns.map(column => {
+          params.push(record[column] === undefined ? null : record[column]);
+          return `$${params.length}`;
+        }).join(', ')})`;
+      });
+      return {
+        text: `INSERT INTO ${tableName} (${columns.map(quoteIdentifier).join(', ')}) VALUES ${tuples.join(', ')} RETURNING *`,
+        params
+      };
+    }
+    case 'Update': {
+      const updates = asObject(values, 'Values');
+      if (Object.keys(updates).length === 0) {
+        throw new ValidationError('Values are required for Update');
+      }
+      if (Object.keys(conditions).length === 0) {
+        throw new ValidationError('Where is required for Update; use a Custom Query to update every row');
+      }
+      const assignments = Object.entries(updates).map(([column, value]) => {
+        params.push(value);
+        return `${quoteIdentifier(column)} = $${params.length}`;
+      });
+      const whereClause = buildWhere(conditions, params);
+      return { text: `UPDATE ${tableName} SET ${assignments.join(', ')}${whereClause} RETURNING *`, params };
+    }
+    case 'Delete': {
+      if (Object.keys(conditions).length === 0) {
+        throw new ValidationError('Where is required for Delete; use a Custom Query to delete every row');
+      }
+      const whereClause = buildWhere(conditions, params);
+      return { text: `DELETE FROM ${tableName}${whereClause} RETURNING *`, params };
+    }
+    default:
+      throw new ValidationError(`Unknown database operation: ${operation}`);
+  }
+};
+
+// Error category for a Postgres SQLSTATE code
+const classifyDatabaseError = (error) => {
+  const code = error.code || '';
+  if (code === '57014') return 'timeout';
+  if (code.startsWith('08') || code === '57P01' || code === '53300') return 'network';
+  if (/^(22|23|42)/.test(code)) return 'validation';
+  if (/timeout/i.test(error.message)) return 'timeout';
+  return classifyError(error);
+};
+
+// The first `limit` rows of a statement; the rest of a larger result is never fetched
+const readRows = (client, { text, params }, limit) => new Promise((resolve, reject) => {
+  const cursor = client.query(new Cursor(text, params));
+  cursor.read(limit, (error, rows, result) => {
+    if (error) {
+      reject(error);
+      return;
+    }
+    cursor.close(() => resolve({ rows, result }));
+  });
+});
 
 export const executeDatabaseOperation = async (config) => {
-  const { operation, table, query } = config;
-  
-  if (!operation || !table) {
-    throw new Error('Operation and table are required for database operations');
+  const { operation = CUSTOM_QUERY, table, query, params, values, where } = config;
+  // Only from the node's credential: the server's own database is never a default
+  const { connectionString } = config;
+  const timeoutMs = toPositiveInteger(config.timeoutMs, DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS);
+  const maxRows = toPositiveInteger(config.maxRows, DEFAULT_MAX_ROWS, MAX_ROWS_LIMIT);
+
+  if (!connectionString) {
+    throw new ValidationError('A Postgres credential is required; create one in Settings and select it on the node');
   }
 
+  let statement;
+  if (operation === CUSTOM_QUERY) {
+    if (!query || query.trim() === '') {
+      throw new ValidationError('SQL Query is required for a Custom Query');
+    }
+    if (query.includes('{{')) {
+      throw new ValidationError('SQL cannot contain {{expressions}}; use $1, $2, ... placeholders and pass the values as Parameters');
+    }
+    if (params !== undefined && params !== '' && !Array.isArray(params)) {
+      throw new ValidationError('Parameters must be a JSON array, e.g. ["{{trigger.body.id}}"]');
+    }
+    statement = { text: query, params: params || [] };
+  } else {
+    if (!table) {
+      throw new ValidationError(`Table is required for ${operation}`);
+    }
+    statement = buildQuery({ operation, table, values, where, maxRows });
+  }
+
+  const client = new pg.Client({
+    connectionString,
+    connectionTimeoutMillis: CONNECT_TIMEOUT_MS,
+    statement_timeout: timeoutMs,
+    // Client-side limit in case the server doesn't honour statement_timeout
+    query_timeout: timeoutMs + 1000,
+    application_name: 'autoflow'
+  });
+  // Errors on an idle connection would otherwise crash the process
+  client.on('error', (error) => console.error('Database connection error:', error.message));
+
   try {
-    console.log(`🗄️  Executing ${operation} operation on table: ${table}`);
-    if (query) {
-      console.log(`📝 Query: ${query}`);
-    }
-
-    // Simulate database operation with realistic delay
-    // In production, replace this with actual database connection:
-    // const client = new Client({
-    //   connectionString: process.env.DATABASE_URL
-    // });
-    // await client.connect();
-    // const result = await client.query(query || `${operation} FROM ${table}`);
-    // await client.end();
-    await new Promise(resolve => setTimeout(resolve, 800));
-
-    const result = {
+    console.log(`🗄️  Executing ${operation === CUSTOM_QUERY ? 'custom query' : `${operation} on ${table}`} (timeout ${timeoutMs}ms)`);
+    console.log(`📝 Query: ${statement.text}`);
+
+    await client.connect();
+    // One row past the cap tells us the result was truncated
+    const { rows, result } = await readRows(client, statement, maxRows + 1);
+
+    const truncated = rows.length > maxRows;
+    const output = {
       success: true,
       operation,
-      table,
-      query,
-      rowsAffected: Math.floor(Math.random() * 5) + 1,
+      table: table || null,
+      query: statement.text,
+      command: result.command,
+      rows: truncated ? rows.slice(0, maxRows) : rows,
+      rowCount: truncated ? maxRows : rows.length,
+      // Unknown when reading stopped before the statement finished
+      rowsAffected: result.rowCount ?? null,
+      fields: (result.fields || []).map(field => field.name),
+      truncated,
       timestamp: new Date().toISOString()
     };
 
     console.log(`✅ Database operation completed successfully`);
-    console.log(`📊 Rows affected: ${result.rowsAffected}`);
-    return result;
+    console.log(`📊 Rows returned: ${output.rowCount}${truncated ? ` (truncated to ${maxRows})` : ''}, rows affected: ${output.rowsAffected ?? 'unknown'}`);
+    return output;
   } catch (error) {
     console.error(`💥 Database operation error:`, error.message);
-    throw new Error(`Database operation failed: ${error.message}`);
+    const category = classifyDatabaseError(error);
+    if (category === 'timeout') {
+      throw new TimeoutError(`Database query exceeded timeout of ${timeoutMs}ms`, { cause: error });
+    }
+    throw new WorkflowError(`Database operation failed: ${error.message}`, { category, cause: error });
+  } finally {
+    await client.end().catch(() => {});
   }
-};
\ No newline at end of file
+};
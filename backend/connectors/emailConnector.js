@@ -0,0 +1,186 @@
+/**
+ * Email Connector for sending mail over SMTP
+ * Connection settings come from the node: a host, port and security, plus the
+ * username and password of its SMTP credential. Subject and bodies are
+ * templated like any other field; attachments are built from JSON (usually
+ * upstream node data).
+ */
+import nodemailer from 'nodemailer';
+import { TimeoutError, ValidationError, WorkflowError, classifyError } from '../errors.js';
+
+const TIMEOUT_MS = 30000;
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+// Error category for an SMTP failure
+const classifySmtpError = (error) => {
+  switch (error.code) {
+    case 'EAUTH':
+    case 'EENVELOPE':
+    case 'EMESSAGE':
+      return 'validation';
+    case 'ECONNECTION':
+    case 'ESOCKET':
+    case 'EDNS':
+    case 'ETLS':
+      return 'network';
+    default:
+      break;
+  }
+  // 4xx replies are the server asking us to try again later; 5xx are permanent
+  if (error.responseCode >= 400 && error.responseCode < 500) return 'rate_limit';
+  if (error.responseCode >= 500) return 'validation';
+  return classifyError(error);
+};
+
+// Recipients as given in the form ("a@x.com, b@y.com") or resolved from upstream data
+const normalizeRecipients = (value) => {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+  const list = Array.isArray(value) ? value : String(value).split(/[,;]/);
+  return list
+    .map(recipient => (recipient && typeof recipient === 'object' ? recipient.address : recipient))
+    .map(recipient => String(recipient || '').trim())
+    .filter(Boolean);
+};
+
+/**
+ * Attachments as nodemailer expects them. Each entry needs a filename and
+ * content: text, base64 (with `encoding: "base64"`), or any JSON value, which
+ * is attached as JSON. Paths and URLs are not allowed, so a workflow can't
+ * attach files from the server.
+ */
+const buildAttachments = (attachments) => {
+  if (attachments === undefined || attachments === null || attachments === '') {
+    return [];
+  }
+  if (typeof attachments === 'string') {
+    throw new ValidationError('Attachments must be valid JSON');
+  }
+
+  const list = Array.isArray(attachments) ? attachments : [attachments];
+  let totalBytes = 0;
+
+  return list.map((attachment, index) => {
+    if (!attachment || typeof attachment !== 'object') {
+      throw new ValidationError(`Attachment ${index + 1} must be an object with a filename and content`);
+    }
+    const { filename, content, contentType, encoding } = attachment;
+    if (!filename) {
+      throw new ValidationError(`Attachment ${index + 1} needs a filename`);
+    }
+    if (content === undefined || content === null) {
+      throw new ValidationError(`Attachment "${filename}" has no content`);
+    }
+
+    const isText = typeof content === 'string';
+    const body = isText ? content : JSON.stringify(content, null, 2);
+    const bytes = encoding === 'base64' && isText
+      ? Buffer.byteLength(body, 'base64')
+      : Buffer.byteLength(body);
+
+    totalBytes += bytes;
+    if (totalBytes > MAX_ATTACHMENT_BYTES) {
+      throw new ValidationError(`Attachments exceed the ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB limit`);
+    }
+
+    return {
+      filename: String(filename),
+      content: body,
+      ...(encoding && isText && { encoding }),
+      contentType: contentType || (isText ? undefined : 'application/json'),
+      size: bytes
+    };
+  });
+};
+
+const createTransport = (config) => {
+  const { host, port, username, password } = config;
+  const security = config.security || 'STARTTLS';
+  const defaultPort = security === 'SSL/TLS' ? 465 : 587;
+
+  if (!host) {
+    throw new ValidationError('An SMTP server is required');
+  }
+  if (!username) {
+    throw new ValidationError('An SMTP credential is required; create one in Settings and select it on the node');
+  }
+
+  return nodemailer.createTransport({
+    host,
+    port: parseInt(port, 10) || defaultPort,
+    secure: security === 'SSL/TLS',
+    requireTLS: security === 'STARTTLS',
+    ignoreTLS: security === 'None',
+    auth: { user: username, pass: password },
+    connectionTimeout: TIMEOUT_MS,
+    greetingTimeout: TIMEOUT_MS,
+    socketTimeout: TIMEOUT_MS
+  });
+};
+
+export const sendEmail = async (config) => {
+  const to = normalizeRecipients(config.to);
+  const cc = normalizeRecipients(config.cc);
+  const bcc = normalizeRecipients(config.bcc);
+  const from = config.from || config.username;
+  const subject = config.subject || '';
+  const text = config.text || undefined;
+  const html = config.html || undefined;
+
+  if (to.length === 0) {
+    throw new ValidationError('At least one recipient (To) is required');
+  }
+  if (!from) {
+    throw new ValidationError('A From address is required');
+  }
+  if (!text && !html) {
+    throw new ValidationError('A text or HTML body is required');
+  }
+
+  const attachments = buildAttachments(config.attachments);
+  const transport = createTransport(config);
+
+  try {
+    console.log(`📧 Sending email "${subject}" to ${to.join(', ')}${attachments.length ? ` with ${attachments.length} attachment(s)` : ''}`);
+
+    const info = await transport.sendMail({
+      from,
+      to,
+      cc,
+      bcc,
+      ...(config.replyTo && { replyTo: config.replyTo }),
+      subject,
+      text,
+      html,
+      attachments: attachments.map(({ size, ...attachment }) => attachment)
+    });
+
+    const result = {
+      success: true,
+      messageId: info.messageId,
+      accepted: info.accepted || [],
+      rejected: info.rejected || [],
+      response: info.response,
+      from,
+      to,
+      cc,
+      bcc,
+      subject,
+      attachments: attachments.map(({ filename, contentType, size }) => ({ filename, contentType: contentType || null, size })),
+      timestamp: new Date().toISOString()
+    };
+
+    console.log(`✅ Email sent successfully (${info.messageId})`);
+    return result;
+  } catch (error) {
+    console.error(`💥 Email send error:`, error.message);
+    const category = classifySmtpError(error);
+    if (category === 'timeout') {
+      throw new TimeoutError(`SMTP server did not respond within ${TIMEOUT_MS / 1000} seconds`, { cause: error });
+    }
+    throw new WorkflowError(`Email send failed: ${error.message}`, { category, cause: error });
+  } finally {
+    transport.close();
+  }
+};
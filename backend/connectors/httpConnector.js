@@ -1,69 +1,359 @@
 /**
  * HTTP Connector for making external API requests
+ * Supports Basic, Bearer, API key and OAuth2 client-credentials auth, query
+ * parameters, JSON/form/multipart/raw bodies and a per-node timeout. Non-2xx
+ * responses fail the node (unless failOnError is 'No') so they can be retried
+ * or routed to an error handler. Paginated APIs can be followed by cursor,
+ * page/offset or Link header, collecting every page's items into `data`.
  */
+import { HttpError, TimeoutError, ValidationError, WorkflowError, classifyError } from '../errors.js';
+import { getPath } from '../expressions.js';
 
-export const executeHttpRequest = async (config) => {
-  const { url, method = 'GET', headers = '{}', body } = config;
-  
-  if (!url) {
-    throw new Error('URL is required for HTTP requests');
+const DEFAULT_TIMEOUT_MS = 30000;
+const MAX_TIMEOUT_MS = 5 * 60 * 1000;
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD'];
+const BODY_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const DEFAULT_MAX_PAGES = 10;
+const MAX_PAGES_LIMIT = 1000;
+
+export const AUTH_TYPES = {
+  NONE: 'None',
+  BASIC: 'Basic Auth',
+  BEARER: 'Bearer Token',
+  API_KEY: 'API Key',
+  OAUTH2: 'OAuth2 Client Credentials'
+};
+
+export const BODY_TYPES = {
+  JSON: 'JSON',
+  FORM: 'Form URL-Encoded',
+  MULTIPART: 'Multipart Form',
+  RAW: 'Raw'
+};
+
+export const PAGINATION_MODES = {
+  NONE: 'None',
+  CURSOR: 'Cursor',
+  PAGE: 'Page / Offset',
+  LINK: 'Link Header'
+};
+
+// Headers that are never written to the logs
+const SENSITIVE_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'x-api-key'];
+
+// OAuth2 access tokens by token URL, client and scope, reused until shortly before they expire
+const oauthTokens = new Map();
+
+const parseJsonObject = (value, label) => {
+  if (value === undefined || value === null || value === '') {
+    return {};
   }
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch (error) {
+      throw new ValidationError(`${label} must be valid JSON: ${error.message}`);
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ValidationError(`${label} must be a JSON object`);
+  }
+  return parsed;
+};
+
+// Query parameters from the key/value editor ([{ key, value }]) or a JSON object
+const getQueryParams = (queryParams) => {
+  if (Array.isArray(queryParams)) {
+    return queryParams
+      .filter(param => param && param.key)
+      .map(param => [param.key, param.value]);
+  }
+  return Object.entries(parseJsonObject(queryParams, 'Query parameters'));
+};
+
+const appendQueryParam = (url, key, value) => {
+  const values = Array.isArray(value) ? value : [value];
+  values.forEach(item => {
+    url.searchParams.append(key, item === undefined || item === null ? '' : String(item));
+  });
+};
+
+const getTimeout = (timeoutMs) => {
+  const timeout = parseInt(timeoutMs, 10);
+  return Number.isFinite(timeout) && timeout > 0 ? Math.min(timeout, MAX_TIMEOUT_MS) : DEFAULT_TIMEOUT_MS;
+};
+
+const truncate = (value, length = 200) => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text && text.length > length ? `${text.substring(0, length)}...` : text;
+};
+
+// Headers and URL as they may appear in logs
+const redactHeaders = (headers, extraNames = []) => {
+  const sensitive = [...SENSITIVE_HEADERS, ...extraNames.map(name => name.toLowerCase())];
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name, sensitive.includes(name.toLowerCase()) ? '[REDACTED]' : value])
+  );
+};
+
+const redactUrl = (url, paramNames = []) => {
+  if (paramNames.length === 0) {
+    return url.toString();
+  }
+  const redacted = new URL(url);
+  paramNames.forEach(name => {
+    if (redacted.searchParams.has(name)) {
+      redacted.searchParams.set(name, '[REDACTED]');
+    }
+  });
+  return redacted.toString();
+};
+
+const hasHeader = (headers, name) => Object.keys(headers).some(key => key.toLowerCase() === name.toLowerCase());
+
+// Fetch (or reuse) an access token with the client credentials grant
+const getOAuthToken = async ({ tokenUrl, clientId, clientSecret, scope }, timeoutMs) => {
+  if (!tokenUrl || !clientId || !clientSecret) {
+    throw new ValidationError('Token URL, client ID and client secret are required for OAuth2');
+  }
+
+  const cacheKey = `${tokenUrl}|${clientId}|${scope || ''}`;
+  const cached = oauthTokens.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return { token: cached.token, cacheKey };
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
-    // Parse headers if provided as JSON string
-    let parsedHeaders = {};
-    if (headers && typeof headers === 'string') {
-      try {
-        parsedHeaders = JSON.parse(headers);
-      } catch (e) {
-        console.warn('Invalid JSON in headers, using empty headers');
+    console.log(`🔑 Requesting OAuth2 token from: ${tokenUrl}`);
+    const response = await fetch(tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json'
+      },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: clientId,
+        client_secret: clientSecret,
+        ...(scope && { scope })
+      }),
+      signal: controller.signal
+    });
+
+    const text = await response.text();
+    let body = {};
+    try {
+      body = JSON.parse(text);
+    } catch (error) {
+      // Reported below as a missing access_token
+    }
+
+    if (!response.ok) {
+      const detail = body.error_description || body.error || truncate(text);
+      // A rejected client is a configuration problem, not something to retry
+      if (response.status === 400 || response.status === 401) {
+        throw new ValidationError(`OAuth2 token request was rejected (${response.status}): ${detail}`);
       }
-    } else if (headers && typeof headers === 'object') {
-      parsedHeaders = headers;
+      throw new HttpError(`OAuth2 token request failed (${response.status}): ${detail}`, response.status);
+    }
+    if (!body.access_token) {
+      throw new WorkflowError('OAuth2 token response did not include an access_token');
+    }
+
+    const expiresIn = parseInt(body.expires_in, 10);
+    if (Number.isFinite(expiresIn) && expiresIn > 0) {
+      oauthTokens.set(cacheKey, {
+        token: body.access_token,
+        // Refresh a minute early so a token never expires mid-request
+        expiresAt: Date.now() + Math.max(0, expiresIn - 60) * 1000
+      });
     }
 
-    // Set default content type for POST/PUT requests with body
-    if ((method === 'POST' || method === 'PUT') && body && !parsedHeaders['Content-Type']) {
-      parsedHeaders['Content-Type'] = 'application/json';
+    return { token: body.access_token, cacheKey };
+  } catch (error) {
+    if (error.name === 'AbortError') {
+      throw new TimeoutError(`OAuth2 token request timeout after ${timeoutMs / 1000} seconds`, { cause: error });
+    }
+    if (error instanceof WorkflowError) {
+      throw error;
     }
+    throw new WorkflowError(`OAuth2 token request failed: ${error.message}`, { category: classifyError(error), cause: error });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+// Add credentials for the chosen auth type; returns names to redact from logs
+const applyAuth = async (config, url, headers, timeoutMs) => {
+  const authType = config.authType || AUTH_TYPES.NONE;
+
+  switch (authType) {
+    case AUTH_TYPES.NONE:
+      return { redactHeaders: [], redactParams: [] };
+    case AUTH_TYPES.BASIC: {
+      if (!config.username) {
+        throw new ValidationError('Username is required for Basic Auth');
+      }
+      const credentials = Buffer.from(`${config.username}:${config.password || ''}`).toString('base64');
+      headers.Authorization = `Basic ${credentials}`;
+      return { redactHeaders: [], redactParams: [] };
+    }
+    case AUTH_TYPES.BEARER:
+      if (!config.token) {
+        throw new ValidationError('Token is required for Bearer Token auth');
+      }
+      headers.Authorization = `Bearer ${config.token}`;
+      return { redactHeaders: [], redactParams: [] };
+    case AUTH_TYPES.API_KEY: {
+      const { apiKeyName, apiKey, apiKeyLocation = 'Header' } = config;
+      if (!apiKeyName || !apiKey) {
+        throw new ValidationError('Key name and value are required for API Key auth');
+      }
+      if (apiKeyLocation === 'Query') {
+        url.searchParams.set(apiKeyName, apiKey);
+        return { redactHeaders: [], redactParams: [apiKeyName] };
+      }
+      headers[apiKeyName] = apiKey;
+      return { redactHeaders: [apiKeyName], redactParams: [] };
+    }
+    case AUTH_TYPES.OAUTH2: {
+      const { token, cacheKey } = await getOAuthToken(config, timeoutMs);
+      headers.Authorization = `Bearer ${token}`;
+      return { redactHeaders: [], redactParams: [], oauthCacheKey: cacheKey };
+    }
+    default:
+      throw new ValidationError(`Unknown auth type: ${authType}`);
+  }
+};
+
+// File parts of a multipart body: { "filename": "...", "content": "...", "contentType": "...", "encoding": "base64" }
+const isFilePart = (value) => value && typeof value === 'object' && 'filename' in value && 'content' in value;
+
+// Request body for the chosen body type; sets Content-Type where fetch doesn't
+const buildBody = (body, bodyType, headers) => {
+  switch (bodyType) {
+    case BODY_TYPES.FORM: {
+      if (typeof body === 'string' && !body.trim().startsWith('{')) {
+        // Already encoded (a=1&b=2)
+        if (!hasHeader(headers, 'Content-Type')) {
+          headers['Content-Type'] = 'application/x-www-form-urlencoded';
+        }
+        return body;
+      }
+      const form = new URLSearchParams();
+      Object.entries(parseJsonObject(body, 'Form body')).forEach(([key, value]) => {
+        (Array.isArray(value) ? value : [value]).forEach(item => {
+          form.append(key, typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item ?? ''));
+        });
+      });
+      return form;
+    }
+    case BODY_TYPES.MULTIPART: {
+      const form = new FormData();
+      Object.entries(parseJsonObject(body, 'Multipart body')).forEach(([key, value]) => {
+        if (isFilePart(value)) {
+          const content = value.encoding === 'base64'
+            ? Buffer.from(String(value.content), 'base64')
+            : typeof value.content === 'string' ? value.content : JSON.stringify(value.content);
+          form.append(key, new Blob([content], { type: value.contentType || 'application/octet-stream' }), value.filename);
+        } else {
+          form.append(key, typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? ''));
+        }
+      });
+      // fetch sets the multipart Content-Type with its boundary
+      Object.keys(headers)
+        .filter(name => name.toLowerCase() === 'content-type')
+        .forEach(name => delete headers[name]);
+      return form;
+    }
+    case BODY_TYPES.RAW:
+      return typeof body === 'string' ? body : JSON.stringify(body);
+    default:
+      if (!hasHeader(headers, 'Content-Type')) {
+        headers['Content-Type'] = 'application/json';
+      }
+      return typeof body === 'string' ? body : JSON.stringify(body);
+  }
+};
+
+// Parse the response body according to responseFormat ('Auto', 'JSON' or 'Text')
+const parseResponse = async (response, method, responseFormat = 'Auto') => {
+  if (method === 'HEAD' || response.status === 204) {
+    return null;
+  }
+
+  const text = await response.text();
+  const contentType = response.headers.get('content-type') || '';
+  const expectJson = responseFormat === 'JSON' || (responseFormat !== 'Text' && /[/+]json\b/i.test(contentType));
+
+  if (!expectJson || text === '') {
+    return text;
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    if (responseFormat === 'JSON') {
+      throw new WorkflowError(`Response is not valid JSON: ${error.message}`, { cause: error });
+    }
+    return text;
+  }
+};
+
+// Send one request and parse its response
+const sendRequest = async (config, requestUrl, timeoutMs) => {
+  const {
+    method = 'GET',
+    headers = '{}',
+    body,
+    bodyType = BODY_TYPES.JSON,
+    responseFormat,
+    failOnError
+  } = config;
+  const requestMethod = method.toUpperCase();
+  const requestHeaders = { ...parseJsonObject(headers, 'Headers') };
+
+  try {
+    const redaction = await applyAuth(config, requestUrl, requestHeaders, timeoutMs);
 
     // Add User-Agent header
-    parsedHeaders['User-Agent'] = 'AutoFlow-Workflow-Engine/1.0';
+    requestHeaders['User-Agent'] = 'AutoFlow-Workflow-Engine/1.0';
 
     const requestOptions = {
-      method: method.toUpperCase(),
-      headers: parsedHeaders,
+      method: requestMethod,
+      headers: requestHeaders
     };
 
-    // Add body for POST/PUT requests
-    if ((method === 'POST' || method === 'PUT') && body) {
-      requestOptions.body = typeof body === 'string' ? body : JSON.stringify(body);
+    const hasBody = body !== undefined && body !== null && body !== '';
+    if (BODY_METHODS.includes(requestMethod) && hasBody) {
+      requestOptions.body = buildBody(body, bodyType, requestHeaders);
     }
 
-    console.log(`🌐 Making ${method.toUpperCase()} request to: ${url}`);
-    console.log(`📋 Headers:`, parsedHeaders);
-    if (requestOptions.body) {
-      console.log(`📄 Body:`, requestOptions.body);
+    console.log(`🌐 Making ${requestMethod} request to: ${redactUrl(requestUrl, redaction.redactParams)}`);
+    console.log(`📋 Headers:`, redactHeaders(requestHeaders, redaction.redactHeaders));
+    if (typeof requestOptions.body === 'string') {
+      console.log(`📄 Body:`, truncate(requestOptions.body, 1000));
+    } else if (requestOptions.body) {
+      console.log(`📄 Body: ${bodyType}`);
     }
 
-    // Add timeout to prevent hanging requests
+    // Add timeout to prevent hanging requests (covers reading the response too)
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-    
-    const response = await fetch(url, {
-      ...requestOptions,
-      signal: controller.signal
-    });
-    
-    clearTimeout(timeoutId);
-    
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    let response;
     let responseData;
-    const contentType = response.headers.get('content-type');
-    
-    if (contentType && contentType.includes('application/json')) {
-      responseData = await response.json();
-    } else {
-      responseData = await response.text();
+    try {
+      response = await fetch(requestUrl, {
+        ...requestOptions,
+        signal: controller.signal
+      });
+      responseData = await parseResponse(response, requestMethod, responseFormat);
+    } finally {
+      clearTimeout(timeoutId);
     }
 
     const result = {
@@ -76,25 +366,191 @@ export const executeHttpRequest = async (config) => {
 
     if (response.ok) {
       console.log(`✅ HTTP request successful (${response.status})`);
-      const responsePreview = typeof responseData === 'string' && responseData.length > 200 
-        ? responseData.substring(0, 200) + '...' 
-        : responseData;
-      console.log(`📊 Response:`, responsePreview);
-    } else {
-      console.log(`❌ HTTP request failed (${response.status}): ${response.statusText}`);
-      const errorPreview = typeof responseData === 'string' && responseData.length > 200 
-        ? responseData.substring(0, 200) + '...' 
-        : responseData;
-      console.log(`📊 Error response:`, errorPreview);
-    }
-
-    return result;
+      console.log(`📊 Response:`, truncate(responseData));
+      return result;
+    }
+
+    console.log(`❌ HTTP request failed (${response.status}): ${response.statusText}`);
+    console.log(`📊 Error response:`, truncate(responseData));
+
+    // A rejected token may have been revoked early; fetch a new one next time
+    if (response.status === 401 && redaction.oauthCacheKey) {
+      oauthTokens.delete(redaction.oauthCacheKey);
+    }
+
+    if (failOnError === 'No') {
+      return result;
+    }
+
+    const preview = truncate(responseData);
+    const error = new HttpError(
+      `HTTP ${response.status} ${response.statusText}${preview ? `: ${preview}` : ''}`,
+      response.status
+    );
+    error.response = result;
+    throw error;
   } catch (error) {
+    if (error instanceof WorkflowError) {
+      throw error;
+    }
     if (error.name === 'AbortError') {
-      console.error(`⏰ HTTP request timeout for: ${url}`);
-      throw new Error(`HTTP request timeout after 30 seconds`);
+      console.error(`⏰ HTTP request timeout for: ${requestUrl.origin}${requestUrl.pathname}`);
+      throw new TimeoutError(`HTTP request timeout after ${timeoutMs / 1000} seconds`, { cause: error });
     }
     console.error(`💥 HTTP request error:`, error.message);
-    throw new Error(`HTTP request failed: ${error.message}`);
+    throw new WorkflowError(`HTTP request failed: ${error.message}`, { category: classifyError(error), cause: error });
+  }
+};
+
+// Items of one page: the array at itemsPath, or the whole response if it is an array
+const getPageItems = (data, itemsPath) => {
+  if (itemsPath) {
+    const { value } = getPath(data, itemsPath);
+    if (value === undefined || value === null) {
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      throw new ValidationError(`Items path "${itemsPath}" does not point to an array`);
+    }
+    return value;
+  }
+  if (Array.isArray(data)) {
+    return data;
+  }
+  throw new ValidationError('Items path is required when the response is not an array');
+};
+
+// URL of the rel="next" entry of an RFC 5988 Link header
+export const getNextLink = (linkHeader, baseUrl) => {
+  if (!linkHeader) {
+    return null;
+  }
+  for (const part of linkHeader.split(/,(?=\s*<)/)) {
+    const match = part.match(/<([^>]*)>(.*)/);
+    if (match && /;\s*rel\s*=\s*"?([^"]*\s)?next(\s[^"]*)?"?\s*(;|$)/i.test(match[2])) {
+      return new URL(match[1], baseUrl);
+    }
+  }
+  return null;
+};
+
+/**
+ * URL of the page after `result`, or null when there are no more pages.
+ * Cursor: the value at cursorPath is sent as the cursorParam query parameter.
+ * Page / Offset: pageParam starts at pageStart and grows by pageIncrement until a page is empty.
+ * Link Header: follows rel="next" on the same origin.
+ */
+const getNextPageUrl = (config, currentUrl, result, items, state) => {
+  switch (config.pagination) {
+    case PAGINATION_MODES.CURSOR: {
+      if (!config.cursorPath || !config.cursorParam) {
+        throw new ValidationError('Cursor path and cursor parameter are required for cursor pagination');
+      }
+      const { value: cursor } = getPath(result.data, config.cursorPath);
+      if (cursor === undefined || cursor === null || cursor === '' || cursor === false || cursor === state.cursor) {
+        return null;
+      }
+      state.cursor = cursor;
+      const nextUrl = new URL(currentUrl);
+      nextUrl.searchParams.set(config.cursorParam, String(cursor));
+      return nextUrl;
+    }
+    case PAGINATION_MODES.PAGE: {
+      if (items.length === 0) {
+        return null;
+      }
+      state.page += state.increment;
+      const nextUrl = new URL(currentUrl);
+      nextUrl.searchParams.set(config.pageParam, String(state.page));
+      return nextUrl;
+    }
+    case PAGINATION_MODES.LINK: {
+      const nextUrl = getNextLink(result.headers.link, currentUrl);
+      // Every page is requested with the node's credentials, so they never leave the original origin
+      if (nextUrl && nextUrl.origin !== currentUrl.origin) {
+        throw new ValidationError(`Next page link points to another origin (${nextUrl.origin}); only links on ${currentUrl.origin} are followed`);
+      }
+      return nextUrl;
+    }
+    default:
+      throw new ValidationError(`Unknown pagination mode: ${config.pagination}`);
+  }
+};
+
+// Request pages until the last one (or maxPages) and collect their items
+const paginate = async (config, firstUrl, timeoutMs) => {
+  const maxPages = Math.min(parseInt(config.maxPages, 10) || DEFAULT_MAX_PAGES, MAX_PAGES_LIMIT);
+  const state = { cursor: undefined, page: 0, increment: 1 };
+  let url = firstUrl;
+
+  if (config.pagination === PAGINATION_MODES.PAGE) {
+    if (!config.pageParam) {
+      throw new ValidationError('Page parameter is required for page/offset pagination');
+    }
+    const start = parseInt(config.pageStart, 10);
+    const increment = parseInt(config.pageIncrement, 10);
+    state.page = Number.isFinite(start) ? start : 1;
+    state.increment = Number.isFinite(increment) && increment > 0 ? increment : 1;
+    url = new URL(firstUrl);
+    url.searchParams.set(config.pageParam, String(state.page));
+  }
+
+  const items = [];
+  let result;
+  let pages = 0;
+  let nextUrl = null;
+
+  while (url && pages < maxPages) {
+    result = await sendRequest(config, url, timeoutMs);
+    pages++;
+    if (!result.success) {
+      nextUrl = null;
+      break;
+    }
+
+    const pageItems = getPageItems(result.data, config.itemsPath);
+    items.push(...pageItems);
+    nextUrl = getNextPageUrl(config, url, result, pageItems, state);
+    url = nextUrl;
+  }
+
+  const truncated = Boolean(nextUrl);
+  console.log(`📚 Collected ${items.length} items from ${pages} page(s)${truncated ? ` (stopped at the ${maxPages} page limit)` : ''}`);
+
+  return {
+    success: result.success,
+    status: result.status,
+    statusText: result.statusText,
+    headers: result.headers,
+    data: items,
+    pages,
+    itemCount: items.length,
+    truncated
+  };
+};
+
+export const executeHttpRequest = async (config) => {
+  const { url, method = 'GET', queryParams } = config;
+  const pagination = config.pagination || PAGINATION_MODES.NONE;
+  const timeoutMs = getTimeout(config.timeoutMs);
+
+  if (!url) {
+    throw new ValidationError('URL is required for HTTP requests');
+  }
+  if (!METHODS.includes(method.toUpperCase())) {
+    throw new ValidationError(`Unsupported HTTP method: ${method}`);
+  }
+
+  let requestUrl;
+  try {
+    requestUrl = new URL(url);
+  } catch (error) {
+    throw new ValidationError(`Invalid URL: ${url}`);
+  }
+  getQueryParams(queryParams).forEach(([key, value]) => appendQueryParam(requestUrl, key, value));
+
+  if (pagination === PAGINATION_MODES.NONE) {
+    return await sendRequest(config, requestUrl, timeoutMs);
   }
-};
\ No newline at end of file
+  return await paginate(config, requestUrl, timeoutMs);
+};
@@ -1,42 +1,253 @@
 /**
  * Slack Connector for sending messages
- * Note: This is a simulation. In production, you would use the Slack Web API
- * with proper authentication tokens and webhook URLs.
+ * Two modes:
+ *   - Bot Token: chat.postMessage on the Web API with an xoxb- token
+ *     (config.token, from the node's credential)
+ *   - Incoming Webhook: POST to a webhook URL created for a single channel
+ * Both support Block Kit `blocks` and replying in a thread via `threadTs`.
+ * SLACK_API_URL overrides the Web API base URL (e.g. for a local stand-in server).
  */
+import { HttpError, TimeoutError, ValidationError, WorkflowError, classifyError, getHttpErrorCategory } from '../errors.js';
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+export const SLACK_MODES = {
+  BOT_TOKEN: 'Bot Token',
+  INCOMING_WEBHOOK: 'Incoming Webhook'
+};
+
+// Readable messages for Slack error codes (Web API and incoming webhooks)
+const SLACK_ERRORS = {
+  channel_not_found: { message: 'Channel not found. Check the channel name or ID and that the bot can see it', category: 'validation' },
+  not_in_channel: { message: 'The bot is not a member of this channel. Invite it with /invite first', category: 'validation' },
+  is_archived: { message: 'The channel has been archived', category: 'validation' },
+  channel_is_archived: { message: 'The channel has been archived', category: 'validation' },
+  msg_too_long: { message: 'The message text is too long', category: 'validation' },
+  no_text: { message: 'A message or blocks are required', category: 'validation' },
+  invalid_blocks: { message: 'The Block Kit JSON was rejected by Slack', category: 'validation' },
+  invalid_blocks_format: { message: 'Blocks must be a JSON array of Block Kit blocks', category: 'validation' },
+  too_many_blocks: { message: 'Slack accepts at most 50 blocks per message', category: 'validation' },
+  invalid_payload: { message: 'Slack could not parse the webhook payload', category: 'validation' },
+  thread_not_found: { message: 'No message found for the thread timestamp', category: 'validation' },
+  restricted_action: { message: 'Workspace settings prevent posting to this channel', category: 'validation' },
+  action_prohibited: { message: 'Workspace settings prevent posting to this channel', category: 'validation' },
+  posting_to_general_channel_denied: { message: 'Only admins can post to this channel', category: 'validation' },
+  not_authed: { message: 'No Slack token was provided', category: 'validation' },
+  invalid_auth: { message: 'The Slack token is invalid', category: 'validation' },
+  token_revoked: { message: 'The Slack token has been revoked', category: 'validation' },
+  token_expired: { message: 'The Slack token has expired', category: 'validation' },
+  account_inactive: { message: 'The Slack token belongs to a deactivated user or workspace', category: 'validation' },
+  missing_scope: { message: 'The Slack token is missing the chat:write scope', category: 'validation' },
+  invalid_token: { message: 'The incoming webhook URL is invalid or has been revoked', category: 'validation' },
+  no_service: { message: 'The incoming webhook URL is invalid or has been disabled', category: 'validation' },
+  no_service_id: { message: 'The incoming webhook URL is invalid', category: 'validation' },
+  no_team: { message: 'The incoming webhook URL is invalid', category: 'validation' },
+  team_disabled: { message: 'The Slack workspace has been disabled', category: 'validation' },
+  ratelimited: { message: 'Slack rate limit reached', category: 'rate_limit' },
+  rate_limited: { message: 'Slack rate limit reached', category: 'rate_limit' },
+  internal_error: { message: 'Slack had an internal error', category: 'http_5xx' },
+  fatal_error: { message: 'Slack had an internal error', category: 'http_5xx' },
+  service_unavailable: { message: 'Slack is temporarily unavailable', category: 'http_5xx' },
+  rollup_error: { message: 'Slack had an internal error', category: 'http_5xx' }
+};
+
+// An error reported by Slack, keeping the original error code
+export class SlackError extends WorkflowError {
+  constructor(code, { status = null, retryAfter = null } = {}) {
+    const known = SLACK_ERRORS[code];
+    const category = known?.category || (status ? getHttpErrorCategory(status) : 'unknown');
+    super(`Slack error ${code}: ${known?.message || 'see https://api.slack.com/methods/chat.postMessage#errors'}`, {
+      category,
+      status
+    });
+    this.name = 'SlackError';
+    this.slackError = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+const parseBlocks = (blocks) => {
+  if (blocks === undefined || blocks === null || blocks === '') {
+    return undefined;
+  }
+
+  let parsed = blocks;
+  if (typeof blocks === 'string') {
+    try {
+      parsed = JSON.parse(blocks);
+    } catch (error) {
+      throw new ValidationError(`Blocks must be valid JSON: ${error.message}`);
+    }
+  }
+
+  // Accept both a bare array and the { "blocks": [...] } shape Block Kit Builder exports
+  if (parsed && !Array.isArray(parsed) && Array.isArray(parsed.blocks)) {
+    parsed = parsed.blocks;
+  }
+  if (!Array.isArray(parsed)) {
+    throw new ValidationError('Blocks must be a JSON array of Block Kit blocks');
+  }
+
+  return parsed;
+};
+
+const postJson = async (url, payload, headers = {}) => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    return await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'User-Agent': 'AutoFlow-Workflow-Engine/1.0',
+        ...headers
+      },
+      body: JSON.stringify(payload),
+      signal: controller.signal
+    });
+  } catch (error) {
+    if (error.name === 'AbortError') {
+      throw new TimeoutError(`Slack request timeout after ${REQUEST_TIMEOUT_MS / 1000} seconds`, { cause: error });
+    }
+    throw new WorkflowError(`Slack request failed: ${error.message}`, { category: classifyError(error), cause: error });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+const getRetryAfter = (response) => {
+  const retryAfter = parseInt(response.headers.get('retry-after'), 10);
+  return Number.isFinite(retryAfter) ? retryAfter : null;
+};
+
+// chat.postMessage with a bot token
+const postWithBotToken = async ({ token, channel, text, blocks, threadTs, username }) => {
+  if (!token) {
+    throw new ValidationError('A Slack bot token is required; select a Slack Bot Token credential on the node');
+  }
+  if (!channel) {
+    throw new ValidationError('Channel is required when sending with a bot token');
+  }
+
+  const baseUrl = (process.env.SLACK_API_URL || 'https://slack.com/api').replace(/\/$/, '');
+  const response = await postJson(`${baseUrl}/chat.postMessage`, {
+    channel,
+    text,
+    ...(blocks && { blocks }),
+    ...(threadTs && { thread_ts: threadTs }),
+    ...(username && { username })
+  }, {
+    Authorization: `Bearer ${token}`
+  });
+
+  if (response.status === 429) {
+    throw new SlackError('ratelimited', { status: 429, retryAfter: getRetryAfter(response) });
+  }
+
+  let body;
+  try {
+    body = await response.json();
+  } catch (error) {
+    throw new HttpError(`Slack returned an unexpected response (${response.status})`, response.status >= 400 ? response.status : 502);
+  }
+
+  if (!body.ok) {
+    throw new SlackError(body.error || 'unknown_error', { status: response.status });
+  }
+
+  return {
+    channel: body.channel,
+    ts: body.ts,
+    threadTs: body.message?.thread_ts || threadTs || null,
+    warning: body.warning || null
+  };
+};
+
+// POST to an incoming webhook; the channel is fixed by the webhook
+const postWithWebhook = async ({ webhookUrl, text, blocks, threadTs, username }) => {
+  if (!webhookUrl) {
+    throw new ValidationError('An incoming webhook URL is required');
+  }
+
+  const response = await postJson(webhookUrl, {
+    text,
+    ...(blocks && { blocks }),
+    ...(threadTs && { thread_ts: threadTs }),
+    ...(username && { username })
+  });
+
+  const body = (await response.text()).trim();
+  if (!response.ok) {
+    throw new SlackError(body || `http_${response.status}`, {
+      status: response.status,
+      retryAfter: getRetryAfter(response)
+    });
+  }
+
+  return {
+    channel: null,
+    ts: null,
+    threadTs: threadTs || null,
+    warning: null
+  };
+};
 
 export const sendSlackMessage = async (config) => {
-  const { channel, message, username = 'AutoFlow Bot' } = config;
-  
-  if (!channel || !message) {
-    throw new Error('Channel and message are required for Slack notifications');
+  const {
+    mode,
+    token,
+    webhookUrl,
+    channel,
+    message,
+    blocks,
+    threadTs,
+    username
+  } = config;
+  const resolvedMode = mode || (webhookUrl ? SLACK_MODES.INCOMING_WEBHOOK : SLACK_MODES.BOT_TOKEN);
+  const parsedBlocks = parseBlocks(blocks);
+
+  if (!message && !parsedBlocks) {
+    throw new ValidationError('A message or blocks are required for Slack notifications');
   }
 
+  // Slack uses `text` as the notification fallback when blocks are sent
+  const text = message || 'New message from AutoFlow';
+
   try {
-    console.log(`💬 Sending Slack message to ${channel}`);
-    console.log(`👤 Username: ${username}`);
-    console.log(`📝 Message: ${message}`);
-
-    // Simulate Slack API call with realistic delay
-    // In production, replace this with actual Slack Web API call:
-    // const response = await fetch('https://slack.com/api/chat.postMessage', {
-    //   method: 'POST',
-    //   headers: {
-    //     'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
-    //     'Content-Type': 'application/json'
-    //   },
-    //   body: JSON.stringify({
-    //     channel: channel,
-    //     text: message,
-    //     username: username
-    //   })
-    // });
-    await new Promise(resolve => setTimeout(resolve, 500));
+    console.log(`💬 Sending Slack message via ${resolvedMode}${channel ? ` to ${channel}` : ''}`);
+    if (threadTs) {
+      console.log(`🧵 Replying in thread ${threadTs}`);
+    }
+
+    let delivery;
+    switch (resolvedMode) {
+      case SLACK_MODES.BOT_TOKEN:
+        delivery = await postWithBotToken({
+          token,
+          channel,
+          text,
+          blocks: parsedBlocks,
+          threadTs,
+          username
+        });
+        break;
+      case SLACK_MODES.INCOMING_WEBHOOK:
+        delivery = await postWithWebhook({ webhookUrl, text, blocks: parsedBlocks, threadTs, username });
+        break;
+      default:
+        throw new ValidationError(`Unknown Slack mode: ${resolvedMode}`);
+    }
 
     const result = {
       success: true,
-      channel,
-      message,
-      username,
+      mode: resolvedMode,
+      channel: delivery.channel || channel || null,
+      ts: delivery.ts,
+      threadTs: delivery.threadTs,
+      message: text,
+      blocks: parsedBlocks || null,
+      warning: delivery.warning,
       timestamp: new Date().toISOString()
     };
 
@@ -44,6 +255,9 @@ export const sendSlackMessage = async (config) => {
     return result;
   } catch (error) {
     console.error(`💥 Slack message error:`, error.message);
-    throw new Error(`Slack message failed: ${error.message}`);
+    if (error instanceof WorkflowError) {
+      throw error;
+    }
+    throw new WorkflowError(`Slack message failed: ${error.message}`, { category: classifyError(error), cause: error });
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,146 @@
+/**
+ * Credentials vault
+ * Secrets (tokens, passwords, connection strings) are stored in the
+ * `credentials` table encrypted with AES-256-GCM under CREDENTIALS_ENCRYPTION_KEY,
+ * bound to the credential's id and owner so ciphertext can't be moved between
+ * rows. Nodes keep only a `credentialId`; the secret fields are decrypted and
+ * merged into the node's config just before its connector runs.
+ */
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { ValidationError, WorkflowError } from './errors.js';
+import { isSecretKey } from './redaction.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY
+);
+
+const CIPHER = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+// Fields each credential type holds; all are encrypted, and all must be set
+export const CREDENTIAL_TYPES = {
+  slack_bot: ['token'],
+  slack_webhook: ['webhookUrl'],
+  http_basic: ['username', 'password'],
+  http_bearer: ['token'],
+  http_api_key: ['apiKey'],
+  oauth2_client: ['clientId', 'clientSecret'],
+  postgres: ['connectionString'],
+  smtp: ['username', 'password'],
+  imap: ['username', 'password'],
+  webhook_secret: ['signingSecret']
+};
+
+// Columns that are safe to send to the browser
+export const CREDENTIAL_COLUMNS = 'id, name, type, rotated_at, created_at, updated_at';
+
+// 32-byte key given as 64 hex characters or base64
+const getEncryptionKey = () => {
+  const value = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!value) {
+    throw new WorkflowError('CREDENTIALS_ENCRYPTION_KEY is not configured on the server', { category: 'validation' });
+  }
+
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new WorkflowError('CREDENTIALS_ENCRYPTION_KEY must be 32 bytes (64 hex characters or base64)', { category: 'validation' });
+  }
+  return key;
+};
+
+const getAssociatedData = (id, userId) => Buffer.from(`${id}:${userId}`);
+
+export const encryptCredential = (data, { id, userId }) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(CIPHER, getEncryptionKey(), iv);
+  cipher.setAAD(getAssociatedData(id, userId));
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(data), 'utf8'), cipher.final()]);
+
+  return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => (Buffer.isBuffer(part) ? part.toString('base64') : part))
+    .join('.');
+};
+
+export const decryptCredential = ({ id, user_id: userId, encrypted_data: encryptedData }) => {
+  const [version, iv, tag, ciphertext] = (encryptedData || '').split('.');
+  if (version !== FORMAT_VERSION || !iv || !tag || !ciphertext) {
+    throw new WorkflowError(`Credential ${id} has an unsupported format`);
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(CIPHER, getEncryptionKey(), Buffer.from(iv, 'base64'));
+    decipher.setAAD(getAssociatedData(id, userId));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf8'));
+  } catch (error) {
+    if (error instanceof WorkflowError) {
+      throw error;
+    }
+    // Never include the ciphertext or key material in the message
+    throw new WorkflowError(`Credential ${id} could not be decrypted (was the encryption key changed?)`);
+  }
+};
+
+/**
+ * Check the secret fields for a credential type. With `partial`, missing
+ * fields are allowed (rotation keeps their current values).
+ */
+export const validateCredentialData = (type, data, { partial = false } = {}) => {
+  const fields = CREDENTIAL_TYPES[type];
+  if (!fields) {
+    throw new ValidationError(`Unknown credential type: ${type}`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ValidationError('Credential data must be an object');
+  }
+
+  const values = {};
+  fields.forEach(field => {
+    const value = data[field];
+    if (value === undefined || value === null || value === '') {
+      if (!partial) {
+        throw new ValidationError(`${field} is required for this credential`);
+      }
+      return;
+    }
+    values[field] = String(value);
+  });
+  return values;
+};
+
+/**
+ * The node config with the secret fields of its credential merged in, for
+ * connectors only. Credentials can only be used by workflows of their owner,
+ * and only by nodes expecting their `type`. The secret values are registered
+ * with the run's `redactor` so they are masked in its logs and results.
+ */
+export const resolveCredential = async (config, userId, { type, redactor } = {}) => {
+  if (!config || !config.credentialId) {
+    return config;
+  }
+
+  const { data: credential, error } = await supabase
+    .from('credentials')
+    .select('id, user_id, type, encrypted_data')
+    .eq('id', config.credentialId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new WorkflowError(`Failed to load credential: ${error.message}`);
+  }
+  if (!credential) {
+    throw new ValidationError('The selected credential no longer exists');
+  }
+  if (credential.type !== type) {
+    throw new ValidationError(`The selected credential is a ${credential.type} credential; this node needs a ${type} credential`);
+  }
+
+  const data = decryptCredential(credential);
+  redactor?.addSecrets(Object.entries(data).filter(([field]) => isSecretKey(field)).map(([, value]) => value));
+
+  return { ...config, ...data };
+};
@@ -0,0 +1,273 @@
+/**
+ * Cron expressions for schedule triggers
+ * Parses standard 5-field cron expressions and computes fire times in an IANA
+ * timezone using the platform's Intl timezone data.
+ *
+ * DST behaviour matches common cron implementations:
+ *   - local times skipped by a spring-forward transition do not fire
+ *   - local times repeated by a fall-back transition fire once
+ */
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+];
+
+const MACROS = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+// Preset intervals offered by the schedule node before cron support
+export const INTERVAL_PRESETS = {
+  'Every 5 minutes': '*/5 * * * *',
+  'Every hour': '0 * * * *',
+  'Daily': '0 0 * * *',
+  'Weekly': '0 0 * * 0'
+};
+
+export const CUSTOM_INTERVAL = 'Custom (cron)';
+
+const MINUTE_MS = 60 * 1000;
+const WEEKDAYS = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+// Never search further ahead than this for the next fire time (e.g. "0 0 30 2 *")
+const SEARCH_HORIZON_MS = 5 * 366 * 24 * 60 * MINUTE_MS;
+
+const parseValue = (value, field) => {
+  const upper = value.toUpperCase();
+  if (field.names && field.names.includes(upper)) {
+    return field.names.indexOf(upper) + (field.name === 'month' ? 1 : 0);
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${field.name} value "${value}"`);
+  }
+  const number = parseInt(value, 10);
+  if (number < field.min || number > field.max) {
+    throw new Error(`${field.name} value ${number} is out of range (${field.min}-${field.max})`);
+  }
+  return number;
+};
+
+const parseField = (source, field) => {
+  const values = new Set();
+
+  source.split(',').forEach(part => {
+    const [range, stepSource] = part.split('/');
+    const step = stepSource === undefined ? 1 : parseInt(stepSource, 10);
+    if (stepSource !== undefined && (!/^\d+$/.test(stepSource) || step < 1)) {
+      throw new Error(`Invalid step "${stepSource}" in ${field.name}`);
+    }
+
+    let start;
+    let end;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) {
+        throw new Error(`Invalid range "${range}" in ${field.name}`);
+      }
+    } else {
+      start = parseValue(range, field);
+      // "5/15" means every 15 starting at 5
+      end = stepSource === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  });
+
+  return values;
+};
+
+/**
+ * Parse a cron expression.
+ * Supports `*`, lists, ranges, steps, month/weekday names and the @daily-style
+ * macros. Throws with a readable message when the expression is invalid.
+ */
+export const parseCron = (expression) => {
+  const normalized = MACROS[String(expression || '').trim().toLowerCase()] || String(expression || '').trim();
+  const parts = normalized.split(/\s+/);
+
+  if (parts.length !== 5 || parts[0] === '') {
+    throw new Error(`Cron expression must have 5 fields (minute hour day month weekday), got "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // When both day fields are restricted, a day matches if either does (Vixie cron semantics)
+    restrictedDayOfMonth: parts[2] !== '*',
+    restrictedDayOfWeek: parts[4] !== '*'
+  };
+};
+
+const formatters = new Map();
+
+const getFormatter = (timeZone) => {
+  if (!formatters.has(timeZone)) {
+    formatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short'
+    }));
+  }
+  return formatters.get(timeZone);
+};
+
+// Throws when the timezone is not a valid IANA name
+export const assertValidTimeZone = (timeZone) => {
+  try {
+    getFormatter(timeZone);
+  } catch (error) {
+    throw new Error(`Unknown timezone "${timeZone}"`);
+  }
+};
+
+// Wall-clock fields of an instant in a timezone
+const getZonedParts = (timestamp, timeZone) => {
+  const parts = {};
+  getFormatter(timeZone).formatToParts(new Date(timestamp)).forEach(({ type, value }) => {
+    parts[type] = value;
+  });
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    weekday: WEEKDAYS[parts.weekday]
+  };
+};
+
+const sameWallClock = (a, b) =>
+  a.year === b.year && a.month === b.month && a.day === b.day && a.hour === b.hour && a.minute === b.minute;
+
+const sameDate = (a, b) => a.year === b.year && a.month === b.month && a.day === b.day;
+
+const dayMatches = (schedule, parts) => {
+  const domMatch = schedule.daysOfMonth.has(parts.day);
+  const dowMatch = schedule.daysOfWeek.has(parts.weekday);
+
+  if (schedule.restrictedDayOfMonth && schedule.restrictedDayOfWeek) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+};
+
+// Whether this instant is the second occurrence of a wall-clock time repeated by a fall-back transition
+const isRepeatedWallClock = (timestamp, parts, timeZone) =>
+  [30, 60].some(offset => sameWallClock(getZonedParts(timestamp - offset * MINUTE_MS, timeZone), parts));
+
+// Jump to the first minute of the next local day
+const startOfNextDay = (timestamp, parts, timeZone) => {
+  let next = timestamp + ((24 * 60) - (parts.hour * 60 + parts.minute)) * MINUTE_MS;
+  const landed = getZonedParts(next, timeZone);
+
+  // Days shortened by DST land past midnight; step back when midnight exists
+  const minutesIntoDay = landed.hour * 60 + landed.minute;
+  if (minutesIntoDay > 0 && !sameDate(landed, parts)) {
+    const backedUp = next - minutesIntoDay * MINUTE_MS;
+    if (sameDate(getZonedParts(backedUp, timeZone), landed)) {
+      next = backedUp;
+    }
+  }
+
+  return next;
+};
+
+/**
+ * First fire time strictly after `after`, or null if the expression never
+ * fires within the search horizon.
+ */
+export const getNextFireTime = (expression, timeZone = 'UTC', after = new Date()) => {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  assertValidTimeZone(timeZone);
+
+  const start = Math.floor(new Date(after).getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  let timestamp = start;
+
+  while (timestamp - start < SEARCH_HORIZON_MS) {
+    const parts = getZonedParts(timestamp, timeZone);
+
+    if (!schedule.months.has(parts.month) || !dayMatches(schedule, parts)) {
+      timestamp = startOfNextDay(timestamp, parts, timeZone);
+      continue;
+    }
+
+    if (!schedule.hours.has(parts.hour)) {
+      timestamp += (60 - parts.minute) * MINUTE_MS;
+      continue;
+    }
+
+    if (!schedule.minutes.has(parts.minute)) {
+      const later = [...schedule.minutes].filter(minute => minute > parts.minute);
+      const nextMinute = later.length > 0 ? Math.min(...later) : 60;
+      timestamp += (nextMinute - parts.minute) * MINUTE_MS;
+      continue;
+    }
+
+    if (isRepeatedWallClock(timestamp, parts, timeZone)) {
+      timestamp += MINUTE_MS;
+      continue;
+    }
+
+    return new Date(timestamp);
+  }
+
+  return null;
+};
+
+// The next `count` fire times after `after`
+export const getNextFireTimes = (expression, timeZone = 'UTC', count = 5, after = new Date()) => {
+  const schedule = parseCron(expression);
+  const fireTimes = [];
+  let cursor = new Date(after);
+
+  while (fireTimes.length < count) {
+    const next = getNextFireTime(schedule, timeZone, cursor);
+    if (!next) break;
+    fireTimes.push(next);
+    cursor = next;
+  }
+
+  return fireTimes;
+};
+
+// Cron expression for a schedule node config (custom expression or one of the presets)
+export const getScheduleExpression = (config = {}) => {
+  if (config.interval === CUSTOM_INTERVAL || (!config.interval && config.cron)) {
+    return config.cron || null;
+  }
+  return INTERVAL_PRESETS[config.interval] || null;
+};
@@ -0,0 +1,327 @@
+/**
+ * Email Poller for Gmail/IMAP trigger nodes
+ * Polls the mailbox of every enabled email trigger and enqueues one run per new
+ * message that passes the node's subject/sender filters. The highest UID seen
+ * is kept per workflow and node in `email_trigger_state`; each message is
+ * claimed there before its run is enqueued, so a message never fires twice.
+ */
+import { createClient } from '@supabase/supabase-js';
+import { ImapFlow } from 'imapflow';
+import { simpleParser } from 'mailparser';
+import { resolveCredential } from './credentials.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY
+);
+
+const POLL_INTERVAL_MS = parseInt(process.env.EMAIL_POLL_INTERVAL_MS, 10) || 60000;
+const MAX_MESSAGES_PER_POLL = parseInt(process.env.EMAIL_MAX_MESSAGES_PER_POLL, 10) || 20;
+const CONNECTION_TIMEOUT_MS = 30000;
+
+// Special-use attributes of the folders a trigger can watch (Inbox is always INBOX)
+const FOLDER_SPECIAL_USE = {
+  Sent: '\\Sent',
+  Drafts: '\\Drafts',
+  Spam: '\\Junk'
+};
+
+const isEmailTriggerNode = (node) =>
+  (node.type === 'trigger' && node.subtype === 'gmail') ||
+  (node.data && node.data.type === 'trigger' && node.data.subtype === 'gmail');
+
+const createImapClient = (config) => {
+  const security = config.security || 'SSL/TLS';
+
+  return new ImapFlow({
+    host: config.host || 'imap.gmail.com',
+    port: parseInt(config.port, 10) || (security === 'SSL/TLS' ? 993 : 143),
+    secure: security === 'SSL/TLS',
+    // STARTTLS is required when chosen and never attempted for 'None'
+    doSTARTTLS: security === 'STARTTLS' ? true : security === 'None' ? false : undefined,
+    auth: {
+      user: config.username,
+      pass: config.password
+    },
+    connectionTimeout: CONNECTION_TIMEOUT_MS,
+    logger: false
+  });
+};
+
+// Mailbox path for the node's folder, looked up by special-use flag for non-Inbox folders
+const resolveMailboxPath = async (client, folder) => {
+  const specialUse = FOLDER_SPECIAL_USE[folder];
+  if (!specialUse) {
+    return 'INBOX';
+  }
+
+  const mailboxes = await client.list();
+  const mailbox = mailboxes.find(entry => entry.specialUse === specialUse);
+  if (!mailbox) {
+    throw new Error(`No ${folder} folder found on the mail server`);
+  }
+  return mailbox.path;
+};
+
+const includesIgnoringCase = (value, filter) =>
+  !filter || (value || '').toLowerCase().includes(filter.trim().toLowerCase());
+
+const matchesFilters = (message, config) =>
+  includesIgnoringCase(message.subject, config.subject_filter) &&
+  includesIgnoringCase(message.from?.text, config.sender_filter);
+
+// Raw header lines as name -> value (repeated headers such as Received become arrays)
+const getHeaders = (message) => {
+  const headers = {};
+  for (const { key, line } of message.headerLines || []) {
+    const value = line.slice(line.indexOf(':') + 1).replace(/\r?\n\s+/g, ' ').trim();
+    if (headers[key] === undefined) {
+      headers[key] = value;
+    } else {
+      headers[key] = [].concat(headers[key], value);
+    }
+  }
+  return headers;
+};
+
+const getAddresses = (field) => field?.value?.map(({ name, address }) => ({ name, address })) || [];
+
+// Trigger output for a parsed message
+const buildTriggerPayload = (message, uid, mailbox) => ({
+  uid,
+  mailbox,
+  messageId: message.messageId || null,
+  subject: message.subject || '',
+  from: message.from?.text || '',
+  fromAddress: message.from?.value?.[0]?.address || null,
+  to: getAddresses(message.to),
+  cc: getAddresses(message.cc),
+  date: message.date ? message.date.toISOString() : null,
+  headers: getHeaders(message),
+  text: message.text || '',
+  html: message.html || null,
+  attachments: (message.attachments || []).map(attachment => ({
+    filename: attachment.filename || null,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    contentId: attachment.contentId || null,
+    checksum: attachment.checksum
+  })),
+  receivedAt: new Date().toISOString()
+});
+
+const getTriggerState = async (workflowId, nodeId) => {
+  const { data, error } = await supabase
+    .from('email_trigger_state')
+    .select('*')
+    .eq('workflow_id', workflowId)
+    .eq('node_id', nodeId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load email trigger state: ${error.message}`);
+  }
+  return data;
+};
+
+// Start tracking from the newest message in the mailbox; older mail never fires
+const recordBaseline = async (workflowId, nodeId, mailbox, uidValidity, lastUid) => {
+  const { error } = await supabase
+    .from('email_trigger_state')
+    .upsert({
+      workflow_id: workflowId,
+      node_id: nodeId,
+      mailbox,
+      uid_validity: uidValidity,
+      last_uid: lastUid,
+      last_polled_at: new Date().toISOString(),
+      last_error: null
+    });
+
+  if (error) {
+    throw new Error(`Failed to save email trigger state: ${error.message}`);
+  }
+};
+
+/**
+ * Move last_uid from `previousUid` to `uid`. Returns false when another poller
+ * got there first, in which case the message is left to it.
+ */
+const claimMessage = async (workflowId, nodeId, uidValidity, previousUid, uid) => {
+  const { data, error } = await supabase
+    .from('email_trigger_state')
+    .update({ last_uid: uid })
+    .eq('workflow_id', workflowId)
+    .eq('node_id', nodeId)
+    .eq('uid_validity', uidValidity)
+    .eq('last_uid', previousUid)
+    .select('last_uid');
+
+  if (error) {
+    throw new Error(`Failed to claim email message ${uid}: ${error.message}`);
+  }
+  return data.length > 0;
+};
+
+// Hand a claimed message back so the next poll picks it up again
+const releaseMessage = async (workflowId, nodeId, uidValidity, previousUid, uid) => {
+  const { error } = await supabase
+    .from('email_trigger_state')
+    .update({ last_uid: previousUid })
+    .eq('workflow_id', workflowId)
+    .eq('node_id', nodeId)
+    .eq('uid_validity', uidValidity)
+    .eq('last_uid', uid);
+
+  if (error) {
+    throw new Error(`Failed to release email message ${uid}: ${error.message}`);
+  }
+};
+
+const recordPollResult = async (workflowId, nodeId, pollError = null) => {
+  await supabase
+    .from('email_trigger_state')
+    .update({
+      last_polled_at: new Date().toISOString(),
+      last_error: pollError ? pollError.message : null
+    })
+    .eq('workflow_id', workflowId)
+    .eq('node_id', nodeId);
+};
+
+// Check one trigger node's mailbox and enqueue runs for new matching messages
+const pollTriggerNode = async (workflow, node, enqueueWorkflowRun) => {
+  const config = await resolveCredential(node.config || node.data?.config || {}, workflow.user_id, { type: 'imap' });
+  if (!config.username || !config.password) {
+    return;
+  }
+
+  const client = createImapClient(config);
+  // Connection errors after connect() are also surfaced by the pending command
+  client.on('error', (error) => console.error(`❌ IMAP connection error for workflow ${workflow.id}:`, error.message));
+
+  await client.connect();
+  try {
+    const path = await resolveMailboxPath(client, config.folder);
+    const lock = await client.getMailboxLock(path, { readOnly: true });
+
+    try {
+      const uidValidity = String(client.mailbox.uidValidity);
+      const newestUid = client.mailbox.uidNext - 1;
+      const state = await getTriggerState(workflow.id, node.id);
+
+      if (!state || String(state.uid_validity) !== uidValidity || state.mailbox !== path) {
+        await recordBaseline(workflow.id, node.id, path, uidValidity, newestUid);
+        console.log(`📬 Watching ${path} for workflow ${workflow.id} (starting after UID ${newestUid})`);
+        return;
+      }
+
+      let lastUid = Number(state.last_uid);
+      if (newestUid <= lastUid) {
+        await recordPollResult(workflow.id, node.id);
+        return;
+      }
+
+      // `N:*` always includes the newest message, even when its UID is below N
+      const uids = ((await client.search({ uid: `${lastUid + 1}:*` }, { uid: true })) || [])
+        .filter(uid => uid > lastUid)
+        .sort((a, b) => a - b)
+        .slice(0, MAX_MESSAGES_PER_POLL);
+
+      for (const uid of uids) {
+        const fetched = await client.fetchOne(String(uid), { uid: true, source: true }, { uid: true });
+        const claimed = await claimMessage(workflow.id, node.id, uidValidity, lastUid, uid);
+        if (!claimed) {
+          console.log(`📭 Email ${uid} in ${path} was already handled for workflow ${workflow.id}`);
+          return;
+        }
+        const previousUid = lastUid;
+        lastUid = uid;
+
+        if (!fetched || !fetched.source) {
+          continue;
+        }
+
+        try {
+          const message = await simpleParser(fetched.source);
+          if (!matchesFilters(message, config)) {
+            continue;
+          }
+
+          await enqueueWorkflowRun(workflow, {
+            source: 'email',
+            entryNodeId: node.id,
+            trigger: buildTriggerPayload(message, uid, path)
+          });
+          console.log(`📧 Email "${message.subject || '(no subject)'}" queued workflow ${workflow.id}`);
+        } catch (error) {
+          // No run was queued for this message; leave it for the next poll
+          await releaseMessage(workflow.id, node.id, uidValidity, previousUid, uid);
+          throw error;
+        }
+      }
+
+      await recordPollResult(workflow.id, node.id);
+    } finally {
+      lock.release();
+    }
+  } finally {
+    await client.logout().catch(() => client.close());
+  }
+};
+
+// Main email poller function
+export const startEmailPoller = (enqueueWorkflowRun) => {
+  console.log('📬 Starting email trigger poller...');
+
+  // A slow mailbox must not let polls pile up
+  let polling = false;
+
+  const pollMailboxes = async () => {
+    if (polling) {
+      return;
+    }
+    polling = true;
+
+    try {
+      const { data: workflows, error } = await supabase
+        .from('workflows')
+        .select('*')
+        .eq('enabled', true);
+
+      if (error) {
+        console.error('❌ Error fetching workflows for email polling:', error);
+        return;
+      }
+
+      for (const workflow of workflows || []) {
+        const emailNodes = (workflow.nodes || []).filter(isEmailTriggerNode);
+
+        for (const node of emailNodes) {
+          try {
+            await pollTriggerNode(workflow, node, enqueueWorkflowRun);
+          } catch (pollError) {
+            console.error(`💥 Email poll failed for workflow ${workflow.id}:`, pollError.message);
+            await recordPollResult(workflow.id, node.id, pollError).catch(() => {});
+          }
+        }
+      }
+    } catch (error) {
+      console.error('💥 Email poller error:', error);
+    } finally {
+      polling = false;
+    }
+  };
+
+  const pollInterval = setInterval(pollMailboxes, POLL_INTERVAL_MS);
+
+  // Initial check
+  pollMailboxes();
+
+  console.log(`✅ Email poller started - checking every ${POLL_INTERVAL_MS / 1000} seconds`);
+
+  return () => {
+    clearInterval(pollInterval);
+    console.log('🛑 Email poller stopped');
+  };
+};
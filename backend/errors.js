@@ -0,0 +1,90 @@
+/**
+ * Error classes for node execution
+ * Each error carries a category so retry policies and error handlers can tell
+ * transient failures (timeouts, network, 5xx, rate limits) from permanent ones.
+ */
+
+export const ERROR_CATEGORIES = ['timeout', 'network', 'rate_limit', 'http_5xx', 'http_4xx', 'validation', 'unknown'];
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT'
+]);
+
+export class WorkflowError extends Error {
+  constructor(message, { category = 'unknown', status = null, cause } = {}) {
+    super(message, cause ? { cause } : undefined);
+    this.name = 'WorkflowError';
+    this.category = category;
+    this.status = status;
+  }
+}
+
+// Missing or invalid node configuration; retrying will not help
+export class ValidationError extends WorkflowError {
+  constructor(message, options = {}) {
+    super(message, { ...options, category: 'validation' });
+    this.name = 'ValidationError';
+  }
+}
+
+export class TimeoutError extends WorkflowError {
+  constructor(message, options = {}) {
+    super(message, { ...options, category: 'timeout' });
+    this.name = 'TimeoutError';
+  }
+}
+
+export class NetworkError extends WorkflowError {
+  constructor(message, options = {}) {
+    super(message, { ...options, category: 'network' });
+    this.name = 'NetworkError';
+  }
+}
+
+// Category of an HTTP error status
+export const getHttpErrorCategory = (status) => {
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'http_5xx';
+  if (status >= 400) return 'http_4xx';
+  return 'unknown';
+};
+
+// An error response from an external service, categorized by status code
+export class HttpError extends WorkflowError {
+  constructor(message, status, options = {}) {
+    super(message, { ...options, status, category: getHttpErrorCategory(status) });
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Category of any error: the one it was created with, or one inferred from
+ * its status, system error code or name (following `cause` chains).
+ */
+export const classifyError = (error) => {
+  for (let current = error, depth = 0; current && depth < 5; current = current.cause, depth++) {
+    if (current.category && current.category !== 'unknown') {
+      return current.category;
+    }
+    if (typeof current.status === 'number' && current.status >= 400) {
+      return getHttpErrorCategory(current.status);
+    }
+    if (current.name === 'AbortError' || current.name === 'TimeoutError' || current.code === 'ETIMEDOUT') {
+      return 'timeout';
+    }
+    if (NETWORK_ERROR_CODES.has(current.code)) {
+      return 'network';
+    }
+  }
+
+  return 'unknown';
+};
@@ -0,0 +1,186 @@
+/**
+ * Template expressions
+ * Resolves {{path}} references in node configuration against the data produced
+ * earlier in a run: upstream node outputs, the trigger payload and run metadata.
+ *
+ * Supported forms:
+ *   {{previous_node.result}}        output of the node directly upstream
+ *   {{nodes.node_123.data.id}}      any upstream node by id
+ *   {{nodes["Fetch Orders"].data}}  any upstream node by label
+ *   {{trigger.body.email}}          output of the trigger node
+ *   {{run.id}}                      run metadata (id, workflowId, workflowName, startedAt)
+ *   {{name}}                        a field of the previous node's output
+ */
+
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const SINGLE_TEMPLATE_PATTERN = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+
+// Split `data.items[0]["first name"]` into ['data', 'items', '0', 'first name']
+export const parsePath = (path) => {
+  const segments = [];
+  const pattern = /([^.[\]]+)|\[\s*(?:"([^"]*)"|'([^']*)'|([^\]]*?))\s*\]/g;
+  let match;
+
+  while ((match = pattern.exec(path)) !== null) {
+    const segment = match[1] ?? match[2] ?? match[3] ?? match[4];
+    if (segment !== undefined && segment !== '') {
+      segments.push(segment.trim());
+    }
+  }
+
+  return segments;
+};
+
+/**
+ * Walk a dot/bracket path into a value.
+ * Returns { found, value } so that a present-but-null value can be told apart
+ * from a missing one.
+ */
+export const getPath = (source, path) => {
+  const segments = Array.isArray(path) ? path : parsePath(path);
+  let current = source;
+
+  for (const segment of segments) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return { found: false, value: undefined };
+    }
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) {
+      return { found: false, value: undefined };
+    }
+    current = current[segment];
+  }
+
+  return { found: true, value: current };
+};
+
+const stringifyValue = (value) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Build the scope expressions are evaluated against.
+ *
+ * @param {object} options
+ * @param {Array<{ node: object, output: any }>} options.upstream  finished upstream nodes, oldest first
+ * @param {any} options.previous  output of the node directly upstream
+ * @param {any} options.trigger   output of the trigger node
+ * @param {object} options.run     run metadata
+ * @param {object} [options.extra] additional top-level names (e.g. error)
+ */
+export const buildExpressionScope = ({ upstream = [], previous, trigger, run, extra = {} }) => {
+  const nodes = {};
+  upstream.forEach(({ node, output }) => {
+    if (node.label && !(node.label in nodes)) {
+      nodes[node.label] = output;
+    }
+  });
+  // Ids win over labels when both match
+  upstream.forEach(({ node, output }) => {
+    nodes[node.id] = output;
+  });
+
+  const previousFields = previous && typeof previous === 'object' && !Array.isArray(previous) ? previous : {};
+
+  return {
+    ...previousFields,
+    ...extra,
+    nodes,
+    previous_node: previous,
+    trigger,
+    run
+  };
+};
+
+/**
+ * Resolve every {{expression}} in a string.
+ *
+ * A string that consists of a single expression resolves to the referenced
+ * value with its type preserved (numbers, booleans, objects); otherwise values
+ * are interpolated as text. Unresolved references become empty and are
+ * reported in `unresolved`.
+ */
+export const resolveTemplate = (template, scope) => {
+  const unresolved = [];
+
+  if (typeof template !== 'string' || !template.includes('{{')) {
+    return { value: template, unresolved };
+  }
+
+  const single = template.match(SINGLE_TEMPLATE_PATTERN);
+  if (single) {
+    const { found, value } = getPath(scope, single[1]);
+    if (!found) unresolved.push(single[1]);
+    return { value: found ? value : '', unresolved };
+  }
+
+  const value = template.replace(TEMPLATE_PATTERN, (_, expression) => {
+    const { found, value: resolved } = getPath(scope, expression);
+    if (!found) {
+      unresolved.push(expression);
+      return '';
+    }
+    return stringifyValue(resolved);
+  });
+
+  return { value, unresolved };
+};
+
+// Resolve templates in nested objects and arrays
+export const resolveValue = (value, scope, unresolved = []) => {
+  if (typeof value === 'string') {
+    const result = resolveTemplate(value, scope);
+    unresolved.push(...result.unresolved);
+    return result.value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveValue(item, scope, unresolved));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveValue(item, scope, unresolved)])
+    );
+  }
+  return value;
+};
+
+/**
+ * Resolve every config field of a node.
+ * Keys listed in `rawKeys` are passed through untouched, for fields that the
+ * node evaluates itself. Keys listed in `jsonKeys` hold JSON text: it is parsed
+ * before templates are resolved so values keep their types and can't break the
+ * JSON (other text that doesn't parse is passed through for the node to reject).
+ * Returns the resolved config and a list of { key, expression } warnings.
+ */
+export const resolveConfig = (config = {}, scope, { rawKeys = [], jsonKeys = [] } = {}) => {
+  const resolved = {};
+  const unresolved = [];
+
+  Object.entries(config).forEach(([key, value]) => {
+    if (rawKeys.includes(key)) {
+      resolved[key] = value;
+      return;
+    }
+
+    let source = value;
+    if (jsonKeys.includes(key) && typeof value === 'string' && value.trim() !== '') {
+      try {
+        source = JSON.parse(value);
+      } catch (error) {
+        // A lone {{reference}} still resolves to its value (e.g. an upstream object)
+        if (!SINGLE_TEMPLATE_PATTERN.test(value.trim())) {
+          resolved[key] = value;
+          return;
+        }
+        source = value.trim();
+      }
+    }
+
+    const missing = [];
+    resolved[key] = resolveValue(source, scope, missing);
+    missing.forEach(expression => unresolved.push({ key, expression }));
+  });
+
+  return { config: resolved, unresolved };
+};
@@ -1,11 +1,10 @@
+// Load environment variables before any module reads them at import time
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
+import crypto from 'crypto';
 import { createClient } from '@supabase/supabase-js';
 
-// Load environment variables
-dotenv.config();
-
 const app = express();
 const PORT = process.env.PORT || 3001;
 
@@ -14,7 +13,12 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:5173',
   credentials: true
 }));
-app.use(express.json());
+// Keep the raw body around so webhook signatures can be verified
+const captureRawBody = (req, res, buf) => {
+  req.rawBody = buf;
+};
+app.use(express.json({ verify: captureRawBody }));
+app.use(express.urlencoded({ extended: true, verify: captureRawBody }));
 
 // Supabase client with service role key
 const supabase = createClient(
@@ -28,15 +32,35 @@ const supabase = createClient(
   }
 );
 
-// In-memory job queue
-const jobQueue = [];
-const executionResults = new Map();
-const executingJobs = new Map();
-
 // Import connectors
-import { executeHttpRequest } from './connectors/httpConnector.js';
-import { sendSlackMessage } from './connectors/slackConnector.js';
+import { AUTH_TYPES, BODY_TYPES, executeHttpRequest } from './connectors/httpConnector.js';
+import { SLACK_MODES, sendSlackMessage } from './connectors/slackConnector.js';
 import { executeDatabaseOperation } from './connectors/databaseConnector.js';
+import { sendEmail } from './connectors/emailConnector.js';
+import { ERROR_HANDLE, buildExecutionPlan, collectAncestors, collectDescendants, getSelectedHandle, isConnectionTaken } from './workflowGraph.js';
+import { buildExpressionScope, getPath, resolveConfig, resolveTemplate } from './expressions.js';
+import { runScript } from './scriptSandbox.js';
+import { findWebhookNode, verifyWebhookSignature } from './webhooks.js';
+import { CUSTOM_INTERVAL, getNextFireTimes, getScheduleExpression } from './cron.js';
+import { ValidationError, WorkflowError, classifyError } from './errors.js';
+import { getRetryPolicy, runWithRetry } from './retryPolicy.js';
+import { containsRedactions, createRedactor, redactSecrets } from './redaction.js';
+import { createRunStateRecorder, isTruncatedSnapshot, loadRunNodeStates } from './runState.js';
+import { LOG_LEVELS, createRunLogger, listRunLogs } from './runLogs.js';
+import { FINAL_STATUSES, getBufferedRunEvents, getLastRunEventId, publishRunEvent, subscribeToRunEvents } from './runEvents.js';
+import { enqueueJob, getJob, getJobForRun, getLatestJobForWorkflow, getQueuePosition, getQueueStats, startWorker } from './jobQueue.js';
+import {
+  CREDENTIAL_COLUMNS,
+  decryptCredential,
+  encryptCredential,
+  resolveCredential,
+  validateCredentialData
+} from './credentials.js';
+import { isOwnedBy, requireAuth } from './auth.js';
+
+// Every API route needs a signed-in user. Health checks stay public, and
+// webhooks (/hooks) authenticate with their own token.
+app.use('/api', (req, res, next) => (req.path === '/health' ? next() : requireAuth(req, res, next)));
 
 // Execute delay node
 async function executeDelay(config) {
@@ -74,11 +98,12 @@ async function executeConditional(config) {
   
   try {
     switch (operator) {
+      // Operands resolved from expressions keep their type, so compare as text
       case 'equals':
-        result = operand1 === operand2;
+        result = String(operand1) === String(operand2);
         break;
       case 'not_equals':
-        result = operand1 !== operand2;
+        result = String(operand1) !== String(operand2);
         break;
       case 'greater_than':
         result = parseFloat(operand1) > parseFloat(operand2);
@@ -114,90 +139,218 @@ async function executeConditional(config) {
 }
 
 // Execute transform node
-async function executeTransform(config) {
-  const { transformationType, inputField, outputField, script } = config;
+async function executeTransform(config, { input, scope, log }) {
+  const { transformationType, inputField, outputField, template, script } = config;
   
   console.log(`🔄 Transforming data: ${transformationType}`);
-  
-  // This is a simplified implementation
-  // In a real scenario, you'd have access to the previous node's output
-  let transformedData = {};
-  
+
+  // Input comes from the previous node's output; paths that are not found
+  // there are looked up in the full expression scope (nodes, trigger, run)
+  const readInput = () => {
+    if (!inputField) return input;
+
+    const fromInput = getPath(input, inputField);
+    if (fromInput.found) return fromInput.value;
+
+    const fromScope = getPath(scope, inputField);
+    if (fromScope.found) return fromScope.value;
+
+    throw new Error(`Input field "${inputField}" not found`);
+  };
+
+  const defaultOutputFields = {
+    'JSON Parse': 'parsed_data',
+    'JSON Stringify': 'stringified_data',
+    'Extract Field': 'extracted_value',
+    'Format String': 'formatted_string',
+    'Custom Script': 'script_result'
+  };
+  const field = outputField || defaultOutputFields[transformationType] || 'transformed';
+  let value;
+
   try {
     switch (transformationType) {
-      case 'JSON Parse':
-        // Simulate JSON parsing
-        transformedData[outputField || 'parsed_data'] = { example: 'parsed JSON' };
+      case 'JSON Parse': {
+        const source = readInput();
+        if (typeof source !== 'string') {
+          // Already structured data, nothing to parse
+          value = source;
+          break;
+        }
+        try {
+          value = JSON.parse(source);
+        } catch (parseError) {
+          throw new Error(`Invalid JSON: ${parseError.message}`);
+        }
         break;
-      case 'JSON Stringify':
-        transformedData[outputField || 'stringified_data'] = '{"example":"stringified"}';
+      }
+      case 'JSON Stringify': {
+        const source = readInput();
+        value = JSON.stringify(source);
+        if (value === undefined) {
+          throw new Error('Input cannot be converted to JSON');
+        }
         break;
+      }
       case 'Extract Field':
-        transformedData[outputField || 'extracted_value'] = 'extracted data';
+        if (!inputField) {
+          throw new ValidationError('Input field path is required for Extract Field');
+        }
+        value = readInput();
         break;
-      case 'Format String':
-        transformedData[outputField || 'formatted_string'] = 'formatted data';
+      case 'Format String': {
+        if (!template) {
+          throw new ValidationError('Format template is required for Format String');
+        }
+        const source = readInput();
+        const templateScope = {
+          ...scope,
+          ...(source && typeof source === 'object' && !Array.isArray(source) ? source : {}),
+          input: source
+        };
+        const { value: formatted, unresolved } = resolveTemplate(template, templateScope);
+        for (const expression of unresolved) {
+          await log('warn', `Unresolved reference {{${expression}}} in format template`);
+        }
+        value = typeof formatted === 'string' ? formatted : JSON.stringify(formatted);
         break;
-      case 'Custom Script':
-        // In a real implementation, you'd safely execute the script
-        transformedData[outputField || 'script_result'] = 'script executed';
+      }
+      case 'Custom Script': {
+        if (!script) {
+          throw new ValidationError('Transformation script is required for Custom Script');
+        }
+        const logScriptOutput = async (logs = []) => {
+          for (const entry of logs) {
+            await log(entry.level, `Script output: ${entry.message}`);
+          }
+        };
+        try {
+          const { result, logs } = await runScript(script, { input: readInput(), context: scope });
+          await logScriptOutput(logs);
+          value = result;
+        } catch (scriptError) {
+          await logScriptOutput(scriptError.logs);
+          throw new Error(`Script error: ${scriptError.message}`);
+        }
         break;
+      }
       default:
-        transformedData = { transformed: true };
+        value = input;
     }
   } catch (error) {
     console.error('Error in data transformation:', error);
-    throw new Error(`Data transformation failed: ${error.message}`);
+    throw new WorkflowError(`Data transformation failed: ${error.message}`, { category: classifyError(error), cause: error });
   }
-  
+
   return {
     success: true,
-    data: transformedData,
+    [field]: value,
+    data: { [field]: value },
     message: `Data transformed using ${transformationType}`,
-    transformationType
+    transformationType,
+    outputField: field
   };
 }
 
 // Execute error handler node
-async function executeErrorHandler(config) {
-  const { action, message, retryCount } = config;
-  
+async function executeErrorHandler(config, { error, log, userId, redactor }) {
+  const { action = 'Log Error', message, retryCount, channel } = config;
+  const errorMessage = message || (error ? `${error.nodeLabel} failed: ${error.message}` : 'No error to handle');
+
   console.log(`🚨 Error handler activated: ${action}`);
-  
+
+  // Handlers only change the run's outcome when a failure is routed to them
+  if (!error) {
+    await log('warn', 'Error handler ran without a failure; connect it to the error output of the nodes it should handle');
+  }
+
   try {
+    let notification = null;
+
     switch (action) {
       case 'Log Error':
-        console.log(`📝 Error logged: ${message}`);
+        await log('error', `Error logged: ${errorMessage}`, { error });
         break;
       case 'Send Notification':
-        console.log(`📧 Notification sent: ${message}`);
+        if (error) {
+          // Sent with the handler's Slack Bot Token credential
+          const { token } = await resolveCredential(config, userId, { type: 'slack_bot', redactor });
+          notification = await sendSlackMessage({
+            mode: SLACK_MODES.BOT_TOKEN,
+            token,
+            channel,
+            message: errorMessage
+          });
+          await log('info', `Error notification sent to ${channel}`);
+        }
         break;
       case 'Retry':
         console.log(`🔄 Retry requested (count: ${retryCount})`);
         break;
       case 'Stop Workflow':
-        console.log(`🛑 Workflow stopped: ${message}`);
+        console.log(`🛑 Workflow stopped: ${errorMessage}`);
         break;
       default:
-        console.log(`❓ Unknown error action: ${action}`);
+        throw new ValidationError(`Unknown error action: ${action}`);
     }
     
     return {
       success: true,
       action,
-      message,
-      retryCount,
+      message: errorMessage,
+      retryCount: Math.max(1, parseInt(retryCount, 10) || 1),
+      error,
+      notification,
       timestamp: new Date().toISOString()
     };
+  } catch (handlerError) {
+    console.error('Error in error handler:', handlerError);
+    throw new WorkflowError(`Error handler failed: ${handlerError.message}`, {
+      category: classifyError(handlerError),
+      cause: handlerError
+    });
+  }
+}
+// Create a run record and queue a workflow for execution
+async function enqueueWorkflowRun(workflow, { source, trigger = null, entryNodeId = null, resumeFrom = null }) {
+  const { data: workflowRun, error: runError } = await supabase
+    .from('workflow_runs')
+    .insert([{
+      workflow_id: workflow.id,
+      user_id: workflow.user_id,
+      status: 'running',
+      parent_run_id: resumeFrom?.runId ?? null,
+      resumed_from_node_id: resumeFrom?.nodeId ?? null
+    }])
+    .select()
+    .single();
+
+  if (runError) {
+    console.error('Error creating workflow run:', runError);
+    throw new Error('Failed to create workflow run');
+  }
+
+  try {
+    return await enqueueJob({
+      workflowId: workflow.id,
+      runId: workflowRun.id,
+      userId: workflow.user_id,
+      source,
+      payload: { trigger, entryNodeId, ...(resumeFrom && { resumeFrom }) }
+    });
   } catch (error) {
-    console.error('Error in error handler:', error);
-    throw new Error(`Error handler failed: ${error.message}`);
+    // Don't leave a run that will never execute marked as running
+    await supabase
+      .from('workflow_runs')
+      .update({ status: 'failed', completed_at: new Date().toISOString() })
+      .eq('id', workflowRun.id);
+    throw error;
   }
 }
+
 // Workflow execution endpoint
 app.post('/api/workflows/:id/execute', async (req, res) => {
   const workflowId = req.params.id;
-  const { authorization } = req.headers;
   
   try {
     // Fetch workflow from database
@@ -207,163 +360,676 @@ app.post('/api/workflows/:id/execute', async (req, res) => {
       .eq('id', workflowId)
       .single();
 
-    if (error || !workflow) {
+    if (error || !isOwnedBy(workflow, req.user)) {
       return res.status(404).json({ error: 'Workflow not found' });
     }
 
-    // Create workflow run record
-    const { data: workflowRun, error: runError } = await supabase
+    const job = await enqueueWorkflowRun(workflow, { source: 'manual' });
+    const { position } = await getQueuePosition(job);
+    
+    res.json({
+      success: true,
+      jobId: job.id,
+      runId: job.run_id,
+      message: 'Workflow queued for execution',
+      queuePosition: position
+    });
+
+  } catch (error) {
+    console.error('Error queuing workflow:', error);
+    res.status(500).json({ error: 'Failed to queue workflow' });
+  }
+});
+
+/**
+ * Resume a failed run from one of its failed nodes ({ nodeId }). That node and
+ * everything downstream of it execute again in a new run linked to the failed
+ * one; earlier nodes keep the outputs stored for the failed run instead of
+ * firing their side effects a second time.
+ */
+app.post('/api/runs/:runId/resume', async (req, res) => {
+  const { runId } = req.params;
+  const { nodeId } = req.body || {};
+
+  try {
+    const { data: run, error } = await supabase
       .from('workflow_runs')
-      .insert([{
-        workflow_id: workflowId,
-        user_id: workflow.user_id,
-        status: 'running',
-        logs: []
-      }])
-      .select()
+      .select('id, workflow_id, status')
+      .eq('id', runId)
+      .eq('user_id', req.user.id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!run) {
+      return res.status(404).json({ error: 'Workflow run not found' });
+    }
+
+    const { data: workflow, error: workflowError } = await supabase
+      .from('workflows')
+      .select('*')
+      .eq('id', run.workflow_id)
       .single();
 
-    if (runError) {
-      console.error('Error creating workflow run:', runError);
-      return res.status(500).json({ error: 'Failed to create workflow run' });
+    if (workflowError || !isOwnedBy(workflow, req.user)) {
+      return res.status(404).json({ error: 'Workflow not found' });
     }
 
-    // Add to job queue
-    const jobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const job = {
-      id: jobId,
-      workflowId,
-      workflow,
-      runId: workflowRun.id,
-      status: 'queued',
-      queuedAt: new Date().toISOString(),
-      position: jobQueue.length + 1
-    };
+    if (run.status !== 'failed') {
+      throw new ValidationError('Only failed runs can be resumed');
+    }
+    if (!nodeId) {
+      throw new ValidationError('nodeId is required');
+    }
+
+    const nodes = workflow.nodes || [];
+    const node = nodes.find(candidate => candidate.id === nodeId);
+    if (!node) {
+      throw new ValidationError('Node no longer exists in the workflow');
+    }
+
+    const nodeStates = await loadRunNodeStates(runId);
+    if (nodeStates.get(nodeId)?.status !== 'failed') {
+      throw new ValidationError(`Node "${node.label}" did not fail in this run`);
+    }
+
+    // The resumed run starts like the failed one did
+    const parentJob = await getJobForRun(runId);
+    const { trigger = null, entryNodeId = null } = parentJob?.payload || {};
+
+    // Upstream outputs are reused, so each must be stored in full and unredacted.
+    // Triggers run again from the failed run's trigger payload instead.
+    const { incoming } = buildExecutionPlan(nodes, workflow.connections || [], {
+      entryNodeIds: entryNodeId ? [entryNodeId] : null
+    });
+    for (const ancestorId of collectAncestors(nodeId, incoming)) {
+      const ancestor = nodes.find(candidate => candidate.id === ancestorId);
+      if (ancestor?.type === 'trigger') {
+        continue;
+      }
+      const label = ancestor?.label || ancestorId;
+      const state = nodeStates.get(ancestorId);
+      if (!state) {
+        throw new ValidationError(`Node "${label}" was added after this run; run the workflow again instead`);
+      }
+      if (isTruncatedSnapshot(state.output)) {
+        throw new ValidationError(`Output of "${label}" was too large to store; run the workflow again instead`);
+      }
+      if (containsRedactions([state.output, state.error])) {
+        throw new ValidationError(`Output of "${label}" contained secrets that were redacted when it was stored; run the workflow again instead`);
+      }
+    }
+
+    const job = await enqueueWorkflowRun(workflow, {
+      source: 'resume',
+      trigger,
+      entryNodeId,
+      resumeFrom: { runId, nodeId }
+    });
+    const { position } = await getQueuePosition(job);
 
-    jobQueue.push(job);
-    
     res.json({
       success: true,
-      jobId,
-      runId: workflowRun.id,
-      message: 'Workflow queued for execution',
-      queuePosition: job.position
+      jobId: job.id,
+      runId: job.run_id,
+      parentRunId: runId,
+      message: 'Workflow queued to resume',
+      queuePosition: position
     });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error resuming workflow run:', error);
+    res.status(500).json({ error: 'Failed to resume workflow run' });
+  }
+});
 
-    // Process job queue
-    processJobQueue();
+// Inbound webhook endpoint for webhook trigger nodes
+app.all('/hooks/:workflowId/:token', express.text({ type: '*/*', verify: captureRawBody }), async (req, res) => {
+  const { workflowId, token } = req.params;
 
+  try {
+    const { data: workflow, error } = await supabase
+      .from('workflows')
+      .select('*')
+      .eq('id', workflowId)
+      .single();
+
+    const node = !error && workflow ? findWebhookNode(workflow, token) : null;
+    if (!node) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    if (!workflow.enabled) {
+      return res.status(409).json({ error: 'Workflow is not active' });
+    }
+
+    const expectedMethod = (node.config.method || 'POST').toUpperCase();
+    if (req.method !== expectedMethod) {
+      return res.status(405).json({ error: `Webhook expects ${expectedMethod} requests` });
+    }
+
+    // The signing secret is kept in the node's Webhook Signing Secret credential
+    const webhookConfig = await resolveCredential(node.config, workflow.user_id, { type: 'webhook_secret' });
+    const signature = verifyWebhookSignature({ ...node, config: webhookConfig }, req.headers, req.rawBody);
+    if (!signature.valid) {
+      console.warn(`🔒 Rejected webhook for workflow ${workflowId}: ${signature.reason}`);
+      return res.status(401).json({ error: signature.reason });
+    }
+
+    const job = await enqueueWorkflowRun(workflow, {
+      source: 'webhook',
+      entryNodeId: node.id,
+      trigger: {
+        method: req.method,
+        body: req.body ?? null,
+        headers: req.headers,
+        query: req.query,
+        receivedAt: new Date().toISOString()
+      }
+    });
+
+    console.log(`🪝 Webhook received for workflow ${workflowId}, queued job ${job.id}`);
+
+    res.status(202).json({
+      success: true,
+      jobId: job.id,
+      runId: job.run_id
+    });
   } catch (error) {
-    console.error('Error queuing workflow:', error);
-    res.status(500).json({ error: 'Failed to queue workflow' });
+    console.error('Error handling webhook:', error);
+    res.status(500).json({ error: 'Failed to process webhook' });
   }
 });
 
-// Get execution status
-app.get('/api/workflows/:id/status', (req, res) => {
-  const { jobId } = req.params;
-  
-  // Check if job is still in queue
-  const queuedJob = jobQueue.find(job => job.id === jobId);
-  if (queuedJob) {
-    return res.json({
-      status: queuedJob.status,
-      queuePosition: jobQueue.indexOf(queuedJob) + 1,
-      queueLength: jobQueue.length
+// Preview the next fire times of a schedule trigger configuration
+app.get('/api/schedules/preview', (req, res) => {
+  const { interval, cron, timezone = 'UTC' } = req.query;
+  const count = Math.min(parseInt(req.query.count, 10) || 5, 20);
+
+  const expression = getScheduleExpression({ interval, cron });
+  if (!expression) {
+    return res.status(400).json({ error: 'Select an interval or enter a cron expression' });
+  }
+
+  try {
+    const fireTimes = getNextFireTimes(expression, timezone, count);
+    res.json({
+      success: true,
+      expression,
+      timezone,
+      fireTimes: fireTimes.map(date => date.toISOString())
     });
+  } catch (error) {
+    res.status(400).json({ error: error.message });
   }
+});
 
-  // Check execution results
-  const result = executionResults.get(jobId);
-  if (result) {
-    return res.json(result);
+// Status response for a job row
+async function getJobStatusResponse(job) {
+  if (job.status === 'queued') {
+    const { position, length, waitingFor } = await getQueuePosition(job);
+    return {
+      status: 'queued',
+      queuePosition: position,
+      queueLength: length,
+      waitingFor
+    };
   }
 
-  res.status(404).json({ error: 'Job not found' });
+  if (job.status === 'running') {
+    return {
+      status: 'executing',
+      message: 'Workflow is currently executing',
+      attempt: job.attempts
+    };
+  }
+
+  // Results stored before redaction existed are masked on the way out too
+  return redactSecrets(job.result || {
+    jobId: job.id,
+    runId: job.run_id,
+    workflowId: job.workflow_id,
+    status: job.status,
+    completedAt: job.completed_at,
+    error: job.error,
+    success: job.status === 'completed'
+  });
+}
+
+// Get execution status of the latest job for a workflow
+app.get('/api/workflows/:id/status', async (req, res) => {
+  try {
+    const job = await getLatestJobForWorkflow(req.params.id);
+    if (!isOwnedBy(job, req.user)) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(await getJobStatusResponse(job));
+  } catch (error) {
+    console.error('Error fetching workflow status:', error);
+    res.status(500).json({ error: 'Failed to fetch workflow status' });
+  }
 });
 
 // Get execution status by job ID
-app.get('/api/jobs/:jobId/status', (req, res) => {
-  const { jobId } = req.params;
-  
-  // Check if job is still in queue
-  const queuedJob = jobQueue.find(job => job.id === jobId);
-  if (queuedJob) {
-    return res.json({
-      status: queuedJob.status,
-      queuePosition: jobQueue.indexOf(queuedJob) + 1,
-      queueLength: jobQueue.length
-    });
+app.get('/api/jobs/:jobId/status', async (req, res) => {
+  try {
+    const job = await getJob(req.params.jobId);
+    if (!isOwnedBy(job, req.user)) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(await getJobStatusResponse(job));
+  } catch (error) {
+    console.error('Error fetching job status:', error);
+    res.status(500).json({ error: 'Failed to fetch job status' });
   }
+});
 
-  // Check if job is currently executing
-  const executingJob = executingJobs.get(jobId);
-  if (executingJob) {
-    return res.json({
-      status: executingJob.status,
-      message: 'Workflow is currently executing'
-    });
+/**
+ * Page through a run's logs in order. Query: `after` (the `nextCursor` of the
+ * previous page), `limit` (up to 500), and the filters `nodeId`, `level` and
+ * `search` (text in the message).
+ */
+app.get('/api/runs/:runId/logs', async (req, res) => {
+  const { runId } = req.params;
+  const { after, limit, nodeId, level, search } = req.query;
+
+  try {
+    if (level && !LOG_LEVELS.includes(level)) {
+      throw new ValidationError(`level must be one of ${LOG_LEVELS.join(', ')}`);
+    }
+    if (after && !/^\d+$/.test(after)) {
+      throw new ValidationError('after must be a log sequence number');
+    }
+
+    const { data: run, error } = await supabase
+      .from('workflow_runs')
+      .select('id')
+      .eq('id', runId)
+      .eq('user_id', req.user.id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!run) {
+      return res.status(404).json({ error: 'Workflow run not found' });
+    }
+
+    const page = await listRunLogs(runId, { after, limit, nodeId, level, search });
+    res.json({ success: true, logs: redactSecrets(page.logs), nextCursor: page.nextCursor });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error fetching run logs:', error);
+    res.status(500).json({ error: 'Failed to fetch run logs' });
   }
+});
+
+// How often a stream checks the database for runs executing in another process
+const RUN_EVENTS_RECHECK_MS = 5000;
+const RUN_EVENTS_KEEPALIVE_MS = 15000;
 
-  // Check execution results
-  const result = executionResults.get(jobId);
-  if (result) {
-    return res.json(result);
+// Current state of a run as one event, for clients that can't be sent buffered events
+async function buildRunSnapshot(run) {
+  const [{ data: nodes, error: nodesError }, job] = await Promise.all([
+    supabase.from('workflow_run_nodes').select('*').eq('run_id', run.id),
+    getJobForRun(run.id)
+  ]);
+
+  if (nodesError) {
+    throw nodesError;
   }
 
-  res.status(404).json({ error: 'Job not found' });
-});
+  // Log history is paged from /api/runs/:runId/logs; `log` events continue after lastLogSeq
+  const { data: lastLog } = await supabase
+    .from('workflow_run_logs')
+    .select('seq')
+    .eq('run_id', run.id)
+    .order('seq', { ascending: false })
+    .limit(1)
+    .maybeSingle();
 
-// Process job queue
-async function processJobQueue() {
-  if (jobQueue.length === 0) return;
+  return {
+    lastLogSeq: lastLog?.seq ?? null,
+    nodes: nodes || [],
+    status: job
+      ? await getJobStatusResponse(job)
+      : { runId: run.id, status: run.status === 'running' ? 'executing' : run.status, completedAt: run.completed_at }
+  };
+}
 
-  const job = jobQueue.shift();
-  job.status = 'executing';
-  job.startedAt = new Date().toISOString();
-  
-  // Add to executing jobs map for status tracking
-  executingJobs.set(job.id, job);
+/**
+ * Stream a run's progress as Server-Sent Events: `log` entries, `node` state
+ * changes and `status` updates (queued, executing, then completed or failed,
+ * after which the stream ends). A new client first gets the run so far, either
+ * as the buffered events or as one `snapshot` event; a client reconnecting with
+ * Last-Event-ID only gets what it missed.
+ */
+app.get('/api/runs/:runId/events', async (req, res) => {
+  const { runId } = req.params;
+  const lastEventId = req.headers['last-event-id'] || null;
+
+  const loadRun = async () => {
+    const { data: run, error } = await supabase
+      .from('workflow_runs')
+      .select('id, status, completed_at')
+      .eq('id', runId)
+      .eq('user_id', req.user.id)
+      .maybeSingle();
 
-  console.log(`\n🚀 Executing workflow: ${job.workflow.name} (ID: ${job.workflowId})`);
-  console.log(`📋 Job ID: ${job.id}`);
-  console.log(`📊 Run ID: ${job.runId}`);
+    if (error) {
+      throw error;
+    }
+    return run;
+  };
 
-  // Helper function to add log entry
-  const addLog = async (level, message, nodeId = null, data = null) => {
-    const logEntry = {
-      timestamp: new Date().toISOString(),
-      level,
-      message,
-      nodeId,
-      data
-    };
+  let run;
+  try {
+    run = await loadRun();
+  } catch (error) {
+    console.error('Error fetching workflow run:', error);
+    return res.status(500).json({ error: 'Failed to fetch workflow run' });
+  }
+  if (!run) {
+    return res.status(404).json({ error: 'Workflow run not found' });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop proxies such as nginx from holding events back
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  let closed = false;
+  const cleanups = [];
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    cleanups.forEach(cleanup => cleanup());
+    res.end();
+  };
+  req.on('close', close);
+
+  const send = ({ id, type, data }) => {
+    if (closed) return;
+    res.write(`${id !== undefined && id !== null ? `id: ${id}\n` : ''}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    if (type === 'status' && FINAL_STATUSES.includes(data?.status)) {
+      close();
+    }
+  };
+
+  // Events published while the backlog is being sent are held back until it is done
+  let pending = [];
+  cleanups.push(subscribeToRunEvents(runId, (event) => (pending ? pending.push(event) : send(event))));
+
+  try {
+    const buffered = getBufferedRunEvents(runId, lastEventId);
+    let sentUpTo = 0;
+    if (buffered) {
+      buffered.forEach(send);
+      sentUpTo = getLastRunEventId(runId);
+    } else {
+      // The snapshot replaces whatever the client had; events after it continue from its id
+      const snapshotId = getLastRunEventId(runId);
+      const snapshot = await buildRunSnapshot(run);
+      send({ id: snapshotId, type: 'snapshot', data: snapshot });
+      send({ type: 'status', data: snapshot.status });
+      sentUpTo = snapshotId ?? 0;
+    }
+
+    const held = pending.filter(event => event.id > sentUpTo);
+    pending = null;
+    held.forEach(send);
+  } catch (error) {
+    console.error('Error streaming run events:', error);
+    send({ type: 'error', data: { error: 'Failed to load run' } });
+    return close();
+  }
+
+  if (closed) return;
 
+  // Keep idle connections open, and catch runs finishing in another worker process
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), RUN_EVENTS_KEEPALIVE_MS);
+  const recheck = setInterval(async () => {
+    if (getLastRunEventId(runId) !== null) return;
     try {
-      // Fetch current logs
-      const { data: currentRun } = await supabase
-        .from('workflow_runs')
-        .select('logs')
-        .eq('id', job.runId)
-        .single();
-
-      const currentLogs = currentRun?.logs || [];
-      const updatedLogs = [...currentLogs, logEntry];
-
-      // Update logs in database
-      await supabase
-        .from('workflow_runs')
-        .update({ logs: updatedLogs })
-        .eq('id', job.runId);
-
-      console.log(`📝 [${level.toUpperCase()}] ${message}`);
+      const current = await loadRun();
+      if (current && current.status !== 'running') {
+        const snapshot = await buildRunSnapshot(current);
+        send({ type: 'snapshot', data: snapshot });
+        send({ type: 'status', data: snapshot.status });
+      }
     } catch (error) {
-      console.error('Error adding log entry:', error);
+      console.error('Error checking run status:', error.message);
     }
-  };
+  }, RUN_EVENTS_RECHECK_MS);
+  cleanups.push(() => clearInterval(keepAlive), () => clearInterval(recheck));
+});
+
+// Status code and message for a failed credentials request
+function sendCredentialError(res, error, fallback) {
+  if (error instanceof WorkflowError && error.category === 'validation') {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error.message);
+  res.status(500).json({ error: fallback });
+}
+
+// List the user's credentials (names and types only; secrets never leave the server)
+app.get('/api/credentials', async (req, res) => {
+  const userId = req.user.id;
+
+  try {
+    const { data: credentials, error } = await supabase
+      .from('credentials')
+      .select(CREDENTIAL_COLUMNS)
+      .eq('user_id', userId)
+      .order('name');
+
+    if (error) {
+      throw error;
+    }
+
+    res.json({ success: true, credentials });
+  } catch (error) {
+    sendCredentialError(res, error, 'Failed to fetch credentials');
+  }
+});
+
+// Create a credential
+app.post('/api/credentials', async (req, res) => {
+  const userId = req.user.id;
+
+  try {
+    const { name, type, data } = req.body || {};
+    if (!name || !String(name).trim()) {
+      throw new ValidationError('Name is required');
+    }
+    const values = validateCredentialData(type, data);
+
+    const id = crypto.randomUUID();
+    const { data: credential, error } = await supabase
+      .from('credentials')
+      .insert({
+        id,
+        user_id: userId,
+        name: String(name).trim(),
+        type,
+        encrypted_data: encryptCredential(values, { id, userId })
+      })
+      .select(CREDENTIAL_COLUMNS)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    console.log(`🔐 Created ${type} credential ${id}`);
+    res.status(201).json({ success: true, credential });
+  } catch (error) {
+    sendCredentialError(res, error, 'Failed to create credential');
+  }
+});
+
+// Rename a credential and/or rotate its secret; fields left out keep their current value
+app.put('/api/credentials/:id', async (req, res) => {
+  const userId = req.user.id;
+
+  try {
+    const { data: existing, error: fetchError } = await supabase
+      .from('credentials')
+      .select('id, user_id, type, encrypted_data')
+      .eq('id', req.params.id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+    if (!existing) {
+      return res.status(404).json({ error: 'Credential not found' });
+    }
+
+    const { name, data } = req.body || {};
+    const updates = {};
+    if (name !== undefined) {
+      if (!String(name).trim()) {
+        throw new ValidationError('Name is required');
+      }
+      updates.name = String(name).trim();
+    }
+    if (data !== undefined) {
+      const changes = validateCredentialData(existing.type, data, { partial: true });
+      const values = { ...decryptCredential(existing), ...changes };
+      validateCredentialData(existing.type, values);
+      updates.encrypted_data = encryptCredential(values, { id: existing.id, userId });
+      updates.rotated_at = new Date().toISOString();
+    }
+
+    const { data: credential, error } = await supabase
+      .from('credentials')
+      .update(updates)
+      .eq('id', existing.id)
+      .eq('user_id', userId)
+      .select(CREDENTIAL_COLUMNS)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    if (updates.encrypted_data) {
+      console.log(`🔐 Rotated credential ${existing.id}`);
+    }
+    res.json({ success: true, credential });
+  } catch (error) {
+    sendCredentialError(res, error, 'Failed to update credential');
+  }
+});
+
+// Delete a credential; nodes still using it fail until another one is picked
+app.delete('/api/credentials/:id', async (req, res) => {
+  const userId = req.user.id;
+
   try {
-    await addLog('info', `Started workflow execution: ${job.workflow.name}`);
-    const executionResult = await executeWorkflow(job.workflow, job.runId);
+    const { data: deleted, error } = await supabase
+      .from('credentials')
+      .delete()
+      .eq('id', req.params.id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+    if (deleted.length === 0) {
+      return res.status(404).json({ error: 'Credential not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    sendCredentialError(res, error, 'Failed to delete credential');
+  }
+});
+
+// Execute a job claimed from the queue; resolves with the outcome stored on the job
+async function processJob(job) {
+  const startedAt = new Date().toISOString();
+  // Shared with executeWorkflow, which registers the run's credential values
+  const redactor = createRedactor();
+
+  const addLog = createRunLogger({ runId: job.run_id, userId: job.user_id, redact: redactor.redact });
+
+  const buildResult = (status, fields) => ({
+    jobId: job.id,
+    runId: job.run_id,
+    workflowId: job.workflow_id,
+    status,
+    startedAt,
+    completedAt: new Date().toISOString(),
+    duration: Date.now() - new Date(startedAt).getTime(),
+    ...redactor.redact(fields)
+  });
+
+  // Status events use the same shape as the job status endpoint
+  publishRunEvent(job.run_id, 'status', {
+    status: 'executing',
+    message: 'Workflow is currently executing',
+    attempt: job.attempts
+  });
+
+  try {
+    const { data: workflow, error: workflowError } = await supabase
+      .from('workflows')
+      .select('*')
+      .eq('id', job.workflow_id)
+      .single();
+
+    if (workflowError || !workflow) {
+      throw new Error('Workflow not found');
+    }
+
+    console.log(`\n🚀 Executing workflow: ${workflow.name} (ID: ${workflow.id})`);
+    console.log(`📋 Job ID: ${job.id}`);
+    console.log(`📊 Run ID: ${job.run_id}`);
+
+    if (job.attempts > 1) {
+      await addLog('warn', `Previous worker stopped before finishing; retrying (attempt ${job.attempts} of ${job.max_attempts})`);
+    }
+
+    await addLog('info', `Started workflow execution: ${workflow.name}`);
+
+    // Resumed runs pick up the node states stored for the failed run
+    let resumeFrom = null;
+    if (job.payload?.resumeFrom) {
+      const { runId: parentRunId, nodeId } = job.payload.resumeFrom;
+      resumeFrom = { runId: parentRunId, nodeId, nodeStates: await loadRunNodeStates(parentRunId) };
+      const resumeNode = (workflow.nodes || []).find(node => node.id === nodeId);
+      await addLog('info', `Resuming run ${parentRunId} from node: ${resumeNode?.label || nodeId}`, nodeId);
+    }
+
+    const { results: executionResult, failure } = await executeWorkflow(workflow, job.run_id, {
+      trigger: job.payload?.trigger || null,
+      entryNodeId: job.payload?.entryNodeId || null,
+      resumeFrom,
+      redactor
+    });
+
+    // A node failed without an error path handling it, or an error handler stopped the run
+    if (failure) {
+      const error = new Error(failure);
+      error.results = executionResult;
+      throw error;
+    }
     
     // Update workflow run status to completed
     await supabase
@@ -372,29 +1038,20 @@ async function processJobQueue() {
         status: 'completed',
         completed_at: new Date().toISOString()
       })
-      .eq('id', job.runId);
+      .eq('id', job.run_id);
 
     await addLog('info', 'Workflow execution completed successfully');
+    console.log(`✅ Workflow execution completed successfully`);
 
-    // Remove from executing jobs
-    executingJobs.delete(job.id);
-    
-    const result = {
-      jobId: job.id,
-      runId: job.runId,
-      workflowId: job.workflowId,
+    const outcome = {
       status: 'completed',
-      startedAt: job.startedAt,
-      completedAt: new Date().toISOString(),
-      duration: Date.now() - new Date(job.startedAt).getTime(),
-      results: executionResult,
-      success: true
+      result: buildResult('completed', {
+        results: executionResult,
+        success: true
+      })
     };
-
-    executionResults.set(job.id, result);
-    console.log(`✅ Workflow execution completed successfully`);
-
-
+    publishRunEvent(job.run_id, 'status', outcome.result);
+    return outcome;
   } catch (error) {
     // Update workflow run status to failed
     await supabase
@@ -403,94 +1060,248 @@ async function processJobQueue() {
         status: 'failed',
         completed_at: new Date().toISOString()
       })
-      .eq('id', job.runId);
+      .eq('id', job.run_id);
 
     await addLog('error', `Workflow execution failed: ${error.message}`);
+    console.error(`❌ Workflow execution failed:`, redactor.redact(error.message));
 
-    // Remove from executing jobs
-    executingJobs.delete(job.id);
-    
-    const result = {
-      jobId: job.id,
-      runId: job.runId,
-      workflowId: job.workflowId,
+    const outcome = {
       status: 'failed',
-      startedAt: job.startedAt,
-      completedAt: new Date().toISOString(),
-      duration: Date.now() - new Date(job.startedAt).getTime(),
-      error: error.message,
-      success: false
+      error: redactor.redact(error.message),
+      result: buildResult('failed', {
+        error: error.message,
+        results: error.results,
+        success: false
+      })
     };
-
-    executionResults.set(job.id, result);
-    console.error(`❌ Workflow execution failed:`, error.message);
+    publishRunEvent(job.run_id, 'status', outcome.result);
+    return outcome;
   }
+}
 
-  // Continue processing queue
-  if (jobQueue.length > 0) {
-    setTimeout(processJobQueue, 1000);
+// Config fields that a node evaluates itself instead of having templates resolved up front
+const RAW_CONFIG_KEYS = {
+  transform: ['template', 'script'],
+  // SQL is never templated; upstream data goes in through bound parameters
+  database: ['query']
+};
+
+// Config fields holding JSON whose values may contain templates
+const JSON_CONFIG_KEYS = {
+  http: ['headers', 'body'],
+  slack: ['blocks'],
+  database: ['params', 'values', 'where'],
+  email: ['attachments']
+};
+
+// Raw bodies and already URL-encoded form bodies are text, not JSON
+const getJsonConfigKeys = (node) => {
+  const keys = JSON_CONFIG_KEYS[node.subtype] || [];
+  if (node.subtype !== 'http') {
+    return keys;
   }
-}
+  const { body, bodyType } = node.config || {};
+  const isTextBody = bodyType === BODY_TYPES.RAW
+    || (bodyType === BODY_TYPES.FORM && typeof body === 'string' && !body.trim().startsWith('{'));
+  return isTextBody ? keys.filter(key => key !== 'body') : keys;
+};
 
 // Execute workflow logic
-async function executeWorkflow(workflow, runId) {
+// Resolves with the node results and, if a node failure was not handled by an
+// error path (or an error handler stopped the run), the reason the run failed.
+// A run resumed from a failed run ({ runId, nodeId, nodeStates }) executes only
+// that node and what is downstream of it; other nodes keep their stored state.
+async function executeWorkflow(workflow, runId, { trigger = null, entryNodeId = null, resumeFrom = null, redactor = createRedactor() } = {}) {
   const nodes = workflow.nodes || [];
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
   const results = [];
 
-  console.log(`📊 Processing ${nodes.length} nodes...`);
+  // Order nodes by the connections drawn on the canvas (throws on cycles).
+  // Runs started by a specific trigger (e.g. a webhook call) start from that node only.
+  const { order, unreachable, entryNodes, incoming, outgoing } = buildExecutionPlan(nodes, workflow.connections || [], {
+    entryNodeIds: entryNodeId ? [entryNodeId] : null
+  });
+  const entryNodeIds = new Set(entryNodes.map(node => node.id));
+  const nodeStates = new Map();
+
+  // Outputs of finished nodes, in execution order, for template expressions
+  const completedNodes = [];
+  let triggerOutput = null;
+  const runMetadata = {
+    id: runId,
+    workflowId: workflow.id,
+    workflowName: workflow.name,
+    startedAt: new Date().toISOString()
+  };
 
-  // Helper function to add log entry for this workflow run
-  const addLog = async (level, message, nodeId = null, data = null) => {
-    const logEntry = {
-      timestamp: new Date().toISOString(),
-      level,
-      message,
-      nodeId,
-      data
-    };
+  // Why the run failed, and whether an error handler asked to stop it
+  let failure = null;
+  let stopped = false;
 
-    try {
-      // Fetch current logs
-      const { data: currentRun } = await supabase
-        .from('workflow_runs')
-        .select('logs')
-        .eq('id', runId)
-        .single();
-
-      const currentLogs = currentRun?.logs || [];
-      const updatedLogs = [...currentLogs, logEntry];
-
-      // Update logs in database
-      await supabase
-        .from('workflow_runs')
-        .update({ logs: updatedLogs })
-        .eq('id', runId);
+  console.log(`📊 Processing ${order.length} of ${nodes.length} nodes...`);
 
-    } catch (error) {
-      console.error('Error adding log entry:', error);
+  const addLog = createRunLogger({ runId, userId: workflow.user_id, redact: redactor.redact });
+
+  // Per-node state for the live view on the canvas
+  const runState = createRunStateRecorder({ runId, workflow, redact: redactor.redact });
+  await runState.init(order, unreachable);
+
+  if (unreachable.length > 0) {
+    await addLog('warn', `Skipping ${unreachable.length} node(s) not connected to a trigger: ${unreachable.map(node => node.label).join(', ')}`);
+  }
+
+  const skipNode = async (node, reason) => {
+    nodeStates.set(node.id, { status: 'skipped' });
+    results.push({
+      nodeId: node.id,
+      label: node.label,
+      type: node.type,
+      subtype: node.subtype,
+      duration: 0,
+      status: 'skipped',
+      success: true
+    });
+    console.log(`⏭️  Skipping node: ${node.label}`);
+    await runState.skipped(node.id);
+    await addLog('info', `Skipped node: ${node.label} (${reason})`, node.id);
+  };
+
+  // Nodes a resumed run executes again: the node it was resumed at and everything downstream of it.
+  // Triggers have no side effects and run again too, from the failed run's trigger payload, since
+  // their stored outputs have secrets such as Authorization headers redacted.
+  const rerunNodeIds = resumeFrom
+    ? new Set([resumeFrom.nodeId, ...collectDescendants(resumeFrom.nodeId, outgoing)])
+    : null;
+
+  // Restore a node's state from the run this one was resumed from instead of executing it
+  const reuseNode = async (node) => {
+    const stored = resumeFrom.nodeStates.get(node.id);
+    if (!stored || !['succeeded', 'failed', 'skipped'].includes(stored.status)) {
+      await skipNode(node, 'not finished in the resumed run');
+      return;
+    }
+
+    const nodeResult = {
+      nodeId: node.id,
+      label: node.label,
+      type: node.type,
+      subtype: node.subtype,
+      duration: stored.duration_ms ?? 0,
+      status: stored.status,
+      success: stored.status !== 'failed',
+      attempts: stored.attempts,
+      reused: true
+    };
+
+    if (stored.status === 'succeeded') {
+      nodeResult.result = stored.output;
+      nodeStates.set(node.id, { status: 'succeeded', handle: getSelectedHandle(node, stored.output) });
+      completedNodes.push({ node, output: stored.output });
+      if (node.type === 'trigger' && triggerOutput === null) {
+        triggerOutput = stored.output;
+      }
+    } else if (stored.status === 'failed') {
+      // Without its error handlers running again, a failure counts as handled if it has an error path
+      const handled = outgoing.get(node.id).some(connection => connection.sourceHandle === ERROR_HANDLE);
+      Object.assign(nodeResult, { error: stored.error, handled });
+      nodeStates.set(node.id, {
+        status: 'failed',
+        error: { message: stored.error, nodeId: node.id, nodeLabel: node.label, attempts: stored.attempts },
+        nodeResult,
+        handled
+      });
+      if (!handled && !failure) {
+        failure = `Node "${node.label}" failed: ${stored.error}`;
+      }
+    } else {
+      nodeStates.set(node.id, { status: 'skipped' });
     }
+
+    results.push(nodeResult);
+    console.log(`♻️  Reusing ${stored.status} node: ${node.label}`);
+    await runState.reused(node.id, stored);
+    await addLog('info', `Reused ${stored.status} state of node: ${node.label} from run ${resumeFrom.runId}`, node.id);
+  };
+
+  // Error routed to a node along an error connection from a failed node
+  const getRoutedError = (node) => {
+    const connection = incoming.get(node.id).find(connection =>
+      connection.sourceHandle === ERROR_HANDLE && nodeStates.get(connection.source)?.status === 'failed'
+    );
+    return connection ? nodeStates.get(connection.source).error : null;
   };
-  for (const node of nodes) {
+
+  // Run a node with its retry policy and record its state, output and result
+  const runNode = async (node) => {
     const startTime = Date.now();
     console.log(`\n🔄 Executing node: ${node.label} (${node.type})`);
     await addLog('info', `Starting execution of node: ${node.label}`, node.id);
 
-    try {
-      let result;
+    // Resolve {{expressions}} in the config against upstream outputs, the trigger, run metadata
+    // and, for nodes on an error path, the error that was routed here
+    const routedError = getRoutedError(node);
+    const ancestors = collectAncestors(node.id, incoming);
+    const upstream = completedNodes.filter(({ node: completed }) => ancestors.has(completed.id));
+    const previous = [...upstream].reverse().find(({ node: completed }) =>
+      incoming.get(node.id).some(connection => connection.source === completed.id)
+    );
+    const scope = buildExpressionScope({
+      upstream,
+      previous: previous?.output,
+      trigger: triggerOutput,
+      run: runMetadata,
+      extra: routedError ? { error: routedError } : {}
+    });
+    const { config: resolvedConfig, unresolved } = resolveConfig(node.config, scope, {
+      rawKeys: RAW_CONFIG_KEYS[node.subtype],
+      jsonKeys: getJsonConfigKeys(node)
+    });
+    for (const { key, expression } of unresolved) {
+      await addLog('warn', `Unresolved reference {{${expression}}} in ${key}`, node.id);
+    }
+    const resolvedNode = { ...node, config: resolvedConfig };
+    const retryPolicy = getRetryPolicy(resolvedConfig);
 
-      switch (node.type) {
-        case 'action':
-          result = await executeAction(node, addLog);
-          break;
-        case 'trigger':
-          result = await executeTrigger(node, addLog);
-          break;
-        case 'logic':
-          result = await executeLogicNode(node, addLog);
-          break;
-        default:
-          result = { success: true, message: `Processed ${node.type} node` };
-      }
+    // What flowed into the node, kept with its state for inspecting the run later
+    const input = node.type === 'trigger'
+      ? trigger
+      : routedError ? { previous: previous?.output ?? null, error: routedError } : previous?.output;
+    await runState.running(node.id, { input, config: resolvedConfig });
+
+    try {
+      const { result, attempts } = await runWithRetry(async (attempt) => {
+        // Tag everything logged during an attempt with its number
+        const attemptLog = (level, message, nodeId = null, data = null) =>
+          addLog(level, message, nodeId, data, attempt);
+
+        switch (node.type) {
+          case 'action':
+            return executeAction(resolvedNode, attemptLog, { userId: workflow.user_id, redactor });
+          case 'trigger':
+            return executeTrigger(resolvedNode, attemptLog, trigger);
+          case 'logic':
+            return executeLogicNode(resolvedNode, attemptLog, {
+              input: previous?.output,
+              scope,
+              error: routedError,
+              userId: workflow.user_id,
+              redactor
+            });
+          default:
+            return { success: true, message: `Processed ${node.type} node` };
+        }
+      }, retryPolicy, {
+        onRetry: async ({ error, category, attempt, delayMs }) => {
+          console.warn(`🔁 Attempt ${attempt} of ${node.label} failed (${category}), retrying in ${delayMs}ms`);
+          await addLog(
+            'warn',
+            `Attempt ${attempt} of ${retryPolicy.maxAttempts} failed (${category}): ${error.message}. Retrying in ${delayMs}ms`,
+            node.id,
+            { error: error.message, category, delayMs },
+            attempt
+          );
+        }
+      });
 
       const duration = Date.now() - startTime;
       const nodeResult = {
@@ -499,14 +1310,29 @@ async function executeWorkflow(workflow, runId) {
         type: node.type,
         subtype: node.subtype,
         duration,
+        status: 'succeeded',
         success: true,
+        attempts,
         result
       };
 
+      nodeStates.set(node.id, { status: 'succeeded', handle: getSelectedHandle(node, result) });
+      completedNodes.push({ node, output: result });
+      if (node.type === 'trigger' && triggerOutput === null) {
+        triggerOutput = result;
+      }
       results.push(nodeResult);
       console.log(`✅ Node completed in ${duration}ms`);
-      await addLog('info', `Node completed successfully in ${duration}ms`, node.id, { result, duration });
-
+      await runState.succeeded(node.id, { output: result, duration, attempts });
+      await addLog(
+        'info',
+        `Node completed successfully in ${duration}ms${attempts > 1 ? ` after ${attempts} attempts` : ''}`,
+        node.id,
+        { result, duration },
+        attempts
+      );
+
+      return { success: true, result };
     } catch (error) {
       const duration = Date.now() - startTime;
       const nodeResult = {
@@ -515,21 +1341,129 @@ async function executeWorkflow(workflow, runId) {
         type: node.type,
         subtype: node.subtype,
         duration,
+        status: 'failed',
         success: false,
-        error: error.message
+        attempts: error.attempts,
+        error: error.message,
+        errorCategory: error.category
+      };
+
+      // What an error handler sees as {{error}}
+      const errorInfo = {
+        message: error.message,
+        nodeId: node.id,
+        nodeLabel: node.label,
+        attempts: error.attempts,
+        category: error.category
       };
 
+      nodeStates.set(node.id, { status: 'failed', error: errorInfo, nodeResult });
       results.push(nodeResult);
       console.error(`❌ Node failed in ${duration}ms:`, error.message);
-      await addLog('error', `Node failed in ${duration}ms: ${error.message}`, node.id, { error: error.message, duration });
+      await runState.failed(node.id, { error: error.message, duration, attempts: error.attempts });
+      await addLog(
+        'error',
+        `Node failed in ${duration}ms${error.attempts > 1 ? ` after ${error.attempts} attempts` : ''}: ${error.message}`,
+        node.id,
+        { error: error.message, category: error.category, duration },
+        error.attempts
+      );
+
+      return { success: false, error: errorInfo };
+    }
+  };
+
+  /**
+   * Route a node failure down its error connections.
+   * Error handlers connected there run right away so their action decides the
+   * outcome before anything else executes: 'Stop Workflow' fails the run and
+   * skips the remaining nodes, 'Retry' runs the failed node again, and
+   * 'Log Error' / 'Send Notification' mark the failure as handled. Other nodes
+   * on an error connection run in their normal order with {{error}} available.
+   * A failure without any error connection fails the run.
+   */
+  const handleFailure = async (node) => {
+    const errorConnections = outgoing.get(node.id).filter(connection => connection.sourceHandle === ERROR_HANDLE);
+    const handlers = errorConnections
+      .map(connection => nodesById.get(connection.target))
+      .filter(target => target && target.subtype === 'error-handler');
+    let handled = errorConnections.length > 0;
+
+    for (const handler of handlers) {
+      const handlerOutcome = await runNode(handler);
+      if (!handlerOutcome.success) {
+        handled = false;
+        await handleFailure(handler);
+        continue;
+      }
+
+      const { action, message, retryCount } = handlerOutcome.result;
+
+      if (action === 'Stop Workflow') {
+        stopped = true;
+        failure = failure || `Stopped by ${handler.label}: ${message}`;
+        await addLog('error', `Workflow stopped by error handler ${handler.label}: ${message}`, handler.id);
+        return;
+      }
+
+      if (action === 'Retry') {
+        for (let retry = 1; retry <= retryCount; retry++) {
+          await addLog('info', `Error handler ${handler.label} retrying ${node.label} (${retry} of ${retryCount})`, node.id);
+          const retryOutcome = await runNode(node);
+          if (retryOutcome.success) {
+            return;
+          }
+        }
+        handled = false;
+        await addLog('error', `${node.label} still failing after ${retryCount} retr${retryCount === 1 ? 'y' : 'ies'} by ${handler.label}`, node.id);
+      }
+    }
+
+    // Mark the latest failed attempt of the node
+    const state = nodeStates.get(node.id);
+    state.handled = handled;
+    state.nodeResult.handled = handled;
+    if (!handled && !failure) {
+      failure = `Node "${node.label}" failed: ${state.error.message}`;
+    }
+  };
+
+  for (const node of order) {
+    // Error handlers already ran when the node they handle failed
+    if (nodeStates.has(node.id)) {
+      continue;
+    }
+
+    if (rerunNodeIds && !rerunNodeIds.has(node.id) && node.type !== 'trigger') {
+      await reuseNode(node);
+      continue;
+    }
+
+    if (stopped) {
+      await skipNode(node, 'workflow stopped');
+      continue;
+    }
+
+    // Skip nodes whose incoming connections were not taken (untaken branch or failed upstream)
+    const isActive = entryNodeIds.has(node.id) ||
+      incoming.get(node.id).some(connection => isConnectionTaken(connection, nodeStates.get(connection.source)));
+
+    if (!isActive) {
+      await skipNode(node, 'branch not taken');
+      continue;
+    }
+
+    const outcome = await runNode(node);
+    if (!outcome.success) {
+      await handleFailure(node);
     }
   }
 
-  return results;
+  return { results, failure };
 }
 
 // Execute logic nodes (conditional, delay, error-handler, transform)
-async function executeLogicNode(node, addLog) {
+async function executeLogicNode(node, addLog, { input, scope, error, userId, redactor }) {
   const { subtype, config } = node;
 
   await addLog('info', `Executing ${subtype} logic node`, node.id, { config });
@@ -540,69 +1474,105 @@ async function executeLogicNode(node, addLog) {
     case 'delay':
       return await executeDelay(config);
     case 'error-handler':
-      return await executeErrorHandler(config);
+      return await executeErrorHandler(config, {
+        error,
+        log: (level, message, data = null) => addLog(level, message, node.id, data),
+        userId,
+        redactor
+      });
     case 'transform':
-      return await executeTransform(config);
+      return await executeTransform(config, {
+        input,
+        scope,
+        log: (level, message) => addLog(level, message, node.id)
+      });
     default:
       return { success: true, message: `Simulated ${subtype} logic node` };
   }
 }
+// Credential type an action node uses with its current settings, if any
+const HTTP_CREDENTIAL_TYPES = {
+  [AUTH_TYPES.BASIC]: 'http_basic',
+  [AUTH_TYPES.BEARER]: 'http_bearer',
+  [AUTH_TYPES.API_KEY]: 'http_api_key',
+  [AUTH_TYPES.OAUTH2]: 'oauth2_client'
+};
+
+const getCredentialType = (subtype, config) => {
+  switch (subtype) {
+    case 'http':
+      return HTTP_CREDENTIAL_TYPES[config.authType] || null;
+    case 'slack': {
+      const mode = config.mode || (config.webhookUrl ? SLACK_MODES.INCOMING_WEBHOOK : SLACK_MODES.BOT_TOKEN);
+      return mode === SLACK_MODES.INCOMING_WEBHOOK ? 'slack_webhook' : 'slack_bot';
+    }
+    case 'database':
+      return 'postgres';
+    case 'email':
+      return 'smtp';
+    default:
+      return null;
+  }
+};
+
 // Execute action nodes
-async function executeAction(node, addLog) {
+async function executeAction(node, addLog, { userId, redactor }) {
   const { subtype, config } = node;
 
   await addLog('info', `Executing ${subtype} action`, node.id, { config });
+
+  // Secrets are merged in after logging so they never reach the run logs.
+  // A credential left over from other settings (e.g. auth None) is not used.
+  const credentialType = getCredentialType(subtype, config);
+  const connectorConfig = credentialType
+    ? await resolveCredential(config, userId, { type: credentialType, redactor })
+    : config;
   switch (subtype) {
     case 'http':
-      return await executeHttpRequest(config);
+      return await executeHttpRequest(connectorConfig);
     case 'slack':
-      return await sendSlackMessage(config);
+      return await sendSlackMessage(connectorConfig);
     case 'database':
-      return await executeDatabaseOperation(config);
+      return await executeDatabaseOperation(connectorConfig);
+    case 'email':
+      return await sendEmail(connectorConfig);
     default:
       return { success: true, message: `Simulated ${subtype} action` };
   }
 }
 
 // Execute trigger nodes
-async function executeTrigger(node, addLog) {
+async function executeTrigger(node, addLog, payload) {
   const { subtype, config } = node;
   
   await addLog('info', `Processing ${subtype} trigger`, node.id, { config });
 
   switch (subtype) {
     case 'schedule':
-      return { success: true, message: `Schedule trigger processed: ${config.interval}` };
+      return {
+        success: true,
+        message: `Schedule trigger processed: ${config.interval === CUSTOM_INTERVAL ? config.cron : config.interval}`,
+        ...(payload || {})
+      };
     case 'webhook':
-      return { success: true, message: `Webhook trigger processed` };
+      if (!payload) {
+        return { success: true, message: 'Webhook trigger run manually (no request payload)' };
+      }
+      return { success: true, message: 'Webhook trigger processed', ...payload };
+    case 'gmail':
+      if (!payload) {
+        return { success: true, message: 'Email trigger run manually (no message)' };
+      }
+      return { success: true, message: `Email received: ${payload.subject || '(no subject)'}`, ...payload };
     default:
       return { success: true, message: `Simulated ${subtype} trigger` };
   }
 }
 
-// Get workflow runs for a user
+// Get workflow runs for a user, optionally only those of one workflow (?workflowId=)
 app.get('/api/workflows/runs', async (req, res) => {
-  const { authorization } = req.headers;
-  
-  if (!authorization) {
-    return res.status(401).json({ error: 'Authorization header required' });
-  }
-
   try {
-    // Create a temporary supabase client with the user's token
-    const userSupabase = createClient(
-      process.env.VITE_SUPABASE_URL,
-      process.env.VITE_SUPABASE_ANON_KEY,
-      {
-        global: {
-          headers: {
-            Authorization: authorization
-          }
-        }
-      }
-    );
-
-    const { data: runs, error } = await userSupabase
+    let query = supabase
       .from('workflow_runs')
       .select(`
         *,
@@ -610,6 +1580,13 @@ app.get('/api/workflows/runs', async (req, res) => {
           name
         )
       `)
+      .eq('user_id', req.user.id);
+
+    if (req.query.workflowId) {
+      query = query.eq('workflow_id', req.query.workflowId);
+    }
+
+    const { data: runs, error } = await query
       .order('started_at', { ascending: false })
       .limit(50);
 
@@ -624,30 +1601,12 @@ app.get('/api/workflows/runs', async (req, res) => {
   }
 });
 
-// Get specific workflow run with logs
+// Get specific workflow run with the first page of its logs
 app.get('/api/workflows/runs/:runId', async (req, res) => {
   const { runId } = req.params;
-  const { authorization } = req.headers;
-  
-  if (!authorization) {
-    return res.status(401).json({ error: 'Authorization header required' });
-  }
 
   try {
-    // Create a temporary supabase client with the user's token
-    const userSupabase = createClient(
-      process.env.VITE_SUPABASE_URL,
-      process.env.VITE_SUPABASE_ANON_KEY,
-      {
-        global: {
-          headers: {
-            Authorization: authorization
-          }
-        }
-      }
-    );
-
-    const { data: run, error } = await userSupabase
+    const { data: run, error } = await supabase
       .from('workflow_runs')
       .select(`
         *,
@@ -657,13 +1616,15 @@ app.get('/api/workflows/runs/:runId', async (req, res) => {
         )
       `)
       .eq('id', runId)
-      .single();
+      .eq('user_id', req.user.id)
+      .maybeSingle();
 
     if (error || !run) {
       return res.status(404).json({ error: 'Workflow run not found' });
     }
 
-    res.json({ success: true, run });
+    const { logs, nextCursor } = await listRunLogs(runId);
+    res.json({ success: true, run: { ...run, logs: redactSecrets(logs), logsCursor: nextCursor } });
   } catch (error) {
     console.error('Error fetching workflow run:', error);
     res.status(500).json({ error: 'Failed to fetch workflow run' });
@@ -671,23 +1632,40 @@ app.get('/api/workflows/runs/:runId', async (req, res) => {
 });
 
 // Health check endpoint
-app.get('/api/health', (req, res) => {
-  res.json({ 
-    status: 'healthy', 
-    timestamp: new Date().toISOString(),
-    queueLength: jobQueue.length,
-    executingJobs: executingJobs.size,
-    activeResults: executionResults.size
-  });
+app.get('/api/health', async (req, res) => {
+  try {
+    const { queued, running } = await getQueueStats();
+    res.json({ 
+      status: 'healthy', 
+      timestamp: new Date().toISOString(),
+      queueLength: queued,
+      executingJobs: running
+    });
+  } catch (error) {
+    console.error('Error fetching queue stats:', error);
+    res.status(503).json({
+      status: 'unhealthy',
+      timestamp: new Date().toISOString(),
+      error: 'Job queue unavailable'
+    });
+  }
 });
 
 // Start server
 app.listen(PORT, () => {
   console.log(`🚀 AutoFlow Backend Server running on port ${PORT}`);
   console.log(`📡 CORS enabled for: ${process.env.FRONTEND_URL || 'http://localhost:5173'}`);
+
+  // Start draining the persistent job queue
+  startWorker(processJob);
   
   // Start scheduler
   import('./scheduler.js').then(({ startScheduler }) => {
-    startScheduler(jobQueue);
+    startScheduler(enqueueWorkflowRun);
+  });
+
+  // Start polling mailboxes of email triggers
+  import('./emailPoller.js').then(({ startEmailPoller }) => {
+    startEmailPoller(enqueueWorkflowRun);
   });
 });
\ No newline at end of file
@@ -0,0 +1,283 @@
+/**
+ * Persistent job queue backed by the workflow_jobs table
+ * Jobs survive backend restarts: a worker claims a job with a lease it keeps
+ * renewing while the workflow runs. If the worker dies, the lease expires and
+ * the job is put back in the queue for another attempt.
+ *
+ * Each process runs a pool of worker loops (WORKER_CONCURRENCY). Claims skip
+ * jobs whose workflow is at its `max_concurrent_runs` or whose user is at
+ * WORKER_MAX_RUNS_PER_USER, so one slow workflow never blocks everyone else.
+ */
+import os from 'os';
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY
+);
+
+const LEASE_SECONDS = parseInt(process.env.JOB_LEASE_SECONDS, 10) || 60;
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS, 10) || 2000;
+const MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS, 10) || 3;
+const CONCURRENCY = parseInt(process.env.WORKER_CONCURRENCY, 10) || 4;
+// 0 or unset means no per-user limit
+const MAX_RUNS_PER_USER = parseInt(process.env.WORKER_MAX_RUNS_PER_USER, 10) || null;
+
+// Renew the lease well before it runs out
+const HEARTBEAT_INTERVAL_MS = Math.max(1000, Math.floor((LEASE_SECONDS * 1000) / 3));
+
+// Identifies this process as the holder of a lease
+export const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+// Wake-up callbacks of idle worker loops, called when a job is enqueued or a slot frees up
+const idleWorkers = new Set();
+
+const notifyWorker = () => {
+  idleWorkers.forEach(wake => wake());
+};
+
+// Add a job to the queue and return the stored row
+export const enqueueJob = async ({ workflowId, runId, userId, source, payload = {} }) => {
+  const { data: job, error } = await supabase
+    .from('workflow_jobs')
+    .insert([{
+      workflow_id: workflowId,
+      run_id: runId,
+      user_id: userId,
+      source,
+      payload,
+      status: 'queued',
+      max_attempts: MAX_ATTEMPTS
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to enqueue job: ${error.message}`);
+  }
+
+  notifyWorker();
+  return job;
+};
+
+export const getJob = async (jobId) => {
+  const { data: job, error } = await supabase
+    .from('workflow_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch job: ${error.message}`);
+  }
+
+  return job;
+};
+
+// Job executing a run
+export const getJobForRun = async (runId) => {
+  const { data: job, error } = await supabase
+    .from('workflow_jobs')
+    .select('*')
+    .eq('run_id', runId)
+    .order('queued_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch job: ${error.message}`);
+  }
+
+  return job;
+};
+
+// Most recent job for a workflow
+export const getLatestJobForWorkflow = async (workflowId) => {
+  const { data: job, error } = await supabase
+    .from('workflow_jobs')
+    .select('*')
+    .eq('workflow_id', workflowId)
+    .order('queued_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch job: ${error.message}`);
+  }
+
+  return job;
+};
+
+/**
+ * 1-based position of a queued job and the total number of queued jobs.
+ * Only jobs that will actually run first count towards the position;
+ * `waitingFor` is 'workflow_limit' or 'user_limit' when the job itself is held
+ * back by a concurrency limit.
+ */
+export const getQueuePosition = async (job) => {
+  const { data, error } = await supabase.rpc('get_workflow_job_queue_position', {
+    p_job_id: job.id,
+    p_max_runs_per_user: MAX_RUNS_PER_USER
+  });
+
+  if (error) {
+    throw new Error(`Failed to compute queue position: ${error.message}`);
+  }
+
+  // The job left the queue in the meantime
+  if (!data || data.length === 0) {
+    return { position: 0, length: 0, waitingFor: null };
+  }
+
+  return {
+    position: data[0].queue_position,
+    length: data[0].queue_length,
+    waitingFor: data[0].waiting_for
+  };
+};
+
+// Number of queued and running jobs
+export const getQueueStats = async () => {
+  const [queued, running] = await Promise.all([
+    supabase.from('workflow_jobs').select('id', { count: 'exact', head: true }).eq('status', 'queued'),
+    supabase.from('workflow_jobs').select('id', { count: 'exact', head: true }).eq('status', 'running')
+  ]);
+
+  if (queued.error || running.error) {
+    throw new Error(`Failed to fetch queue stats: ${(queued.error || running.error).message}`);
+  }
+
+  return {
+    queued: queued.count,
+    running: running.count
+  };
+};
+
+// Claim the oldest queued job, re-queueing abandoned leases first. Returns null when idle.
+const claimJob = async () => {
+  const { data, error } = await supabase.rpc('claim_workflow_job', {
+    p_worker_id: WORKER_ID,
+    p_lease_seconds: LEASE_SECONDS,
+    p_max_runs_per_user: MAX_RUNS_PER_USER
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim job: ${error.message}`);
+  }
+
+  return data && data.length > 0 ? data[0] : null;
+};
+
+const extendLease = async (jobId) => {
+  const { data, error } = await supabase.rpc('extend_workflow_job_lease', {
+    p_job_id: jobId,
+    p_worker_id: WORKER_ID,
+    p_lease_seconds: LEASE_SECONDS
+  });
+
+  if (error) {
+    throw new Error(`Failed to extend lease: ${error.message}`);
+  }
+
+  return data === true;
+};
+
+// Record the outcome of a job this worker still holds
+const finishJob = async (jobId, { status, result = null, error = null }) => {
+  const { error: updateError } = await supabase
+    .from('workflow_jobs')
+    .update({
+      status,
+      result,
+      error,
+      completed_at: new Date().toISOString(),
+      locked_by: null,
+      lease_expires_at: null
+    })
+    .eq('id', jobId)
+    .eq('locked_by', WORKER_ID);
+
+  if (updateError) {
+    throw new Error(`Failed to finish job: ${updateError.message}`);
+  }
+};
+
+// Wait for the poll interval or until notifyWorker() is called
+const waitForWork = (ms) => new Promise(resolve => {
+  const timer = setTimeout(done, ms);
+  function done() {
+    clearTimeout(timer);
+    idleWorkers.delete(done);
+    resolve();
+  }
+  idleWorkers.add(done);
+});
+
+/**
+ * Run `handleJob(job)` for every job in the queue until stopped, with up to
+ * `concurrency` jobs in flight. The handler resolves with
+ * `{ status, result, error }` for the job row; if it throws, the job is marked
+ * failed with the error message.
+ */
+export const startWorker = (handleJob, { concurrency = CONCURRENCY } = {}) => {
+  let stopped = false;
+
+  const runJob = async (job) => {
+    const heartbeat = setInterval(async () => {
+      try {
+        const held = await extendLease(job.id);
+        if (!held) {
+          console.warn(`⚠️ Lost lease on job ${job.id}; another worker may pick it up`);
+        }
+      } catch (error) {
+        console.error(`Error extending lease on job ${job.id}:`, error.message);
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+      const outcome = await handleJob(job);
+      await finishJob(job.id, outcome);
+    } catch (error) {
+      console.error(`❌ Job ${job.id} failed:`, error.message);
+      await finishJob(job.id, { status: 'failed', error: error.message });
+    } finally {
+      clearInterval(heartbeat);
+      // A concurrency slot for this workflow and user just opened up
+      notifyWorker();
+    }
+  };
+
+  const loop = async () => {
+    while (!stopped) {
+      let job = null;
+      try {
+        job = await claimJob();
+      } catch (error) {
+        console.error('Error claiming job:', error.message);
+      }
+
+      if (!job) {
+        await waitForWork(POLL_INTERVAL_MS);
+        continue;
+      }
+
+      try {
+        await runJob(job);
+      } catch (error) {
+        // The lease will expire and the job will be retried
+        console.error(`Error recording result of job ${job.id}:`, error.message);
+      }
+    }
+  };
+
+  console.log(`👷 Job worker ${WORKER_ID} started with ${concurrency} slot(s) (lease ${LEASE_SECONDS}s)`);
+  for (let slot = 0; slot < concurrency; slot++) {
+    loop();
+  }
+
+  return () => {
+    stopped = true;
+    notifyWorker();
+  };
+};
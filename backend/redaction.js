@@ -0,0 +1,122 @@
+/**
+ * Secret redaction for run logs and execution results
+ * Masks values under secret-looking keys (passwords, tokens, Authorization and
+ * Cookie headers, ...), Bearer/Basic credentials and URL passwords inside
+ * strings, and any exact secret value the run is known to hold: values
+ * decrypted from the credential store and the server's own secrets.
+ */
+
+export const REDACTED = '[REDACTED]';
+
+// Keys (compared lowercase, without - and _) whose values are always masked
+const SECRET_KEYS = new Set([
+  'password',
+  'passwd',
+  'pass',
+  'secret',
+  'token',
+  'apikey',
+  'xapikey',
+  'clientsecret',
+  'signingsecret',
+  'connectionstring',
+  'webhookurl',
+  'authorization',
+  'proxyauthorization',
+  'cookie',
+  'setcookie',
+  'privatekey',
+  'encrypteddata'
+]);
+const SECRET_KEY_SUFFIXES = ['password', 'secret', 'token', 'apikey'];
+
+// Server secrets that must never show up in a run either
+const SECRET_ENV_VARS = ['SUPABASE_SERVICE_ROLE_KEY', 'CREDENTIALS_ENCRYPTION_KEY'];
+
+// Shorter values would mask ordinary words
+const MIN_SECRET_LENGTH = 4;
+const MAX_DEPTH = 20;
+
+const AUTH_SCHEME_PATTERN = /\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/gi;
+const URL_PASSWORD_PATTERN = /([a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)[^\s@/]+@/gi;
+
+export const isSecretKey = (key) => {
+  const normalized = String(key).toLowerCase().replace(/[-_]/g, '');
+  return SECRET_KEYS.has(normalized) || SECRET_KEY_SUFFIXES.some(suffix => normalized.endsWith(suffix));
+};
+
+const redactString = (value, secrets) => {
+  let redacted = value
+    .replace(AUTH_SCHEME_PATTERN, `$1 ${REDACTED}`)
+    .replace(URL_PASSWORD_PATTERN, `$1${REDACTED}@`);
+
+  for (const secret of secrets) {
+    if (redacted.includes(secret)) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+  }
+  return redacted;
+};
+
+/**
+ * Copy of `value` with secrets masked. `secrets` are exact values to mask
+ * wherever they appear, longest first so a secret containing another is
+ * masked whole.
+ */
+export const redactSecrets = (value, secrets = [], depth = 0) => {
+  if (typeof value === 'string') {
+    return redactString(value, secrets);
+  }
+  if (value === null || typeof value !== 'object' || depth > MAX_DEPTH) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item, secrets, depth + 1));
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      isSecretKey(key) && item !== null && item !== undefined && item !== ''
+        ? REDACTED
+        : redactSecrets(item, secrets, depth + 1)
+    ])
+  );
+};
+
+// Whether a stored value had anything masked, so it no longer matches what a run produced
+export const containsRedactions = (value, depth = 0) => {
+  if (typeof value === 'string') {
+    return value.includes(REDACTED);
+  }
+  if (value === null || typeof value !== 'object' || depth > MAX_DEPTH) {
+    return false;
+  }
+  return Object.values(value).some(item => containsRedactions(item, depth + 1));
+};
+
+/**
+ * Redactor for one run: collects the secret values the run uses so they are
+ * masked wherever they turn up (error messages, echoed responses, URLs).
+ */
+export const createRedactor = () => {
+  const secrets = new Set();
+
+  const addSecrets = (values) => {
+    values.forEach(value => {
+      if (typeof value === 'string' && value.length >= MIN_SECRET_LENGTH) {
+        secrets.add(value);
+      }
+    });
+  };
+
+  addSecrets(SECRET_ENV_VARS.map(name => process.env[name]));
+
+  return {
+    addSecrets,
+    redact: (value) => redactSecrets(value, [...secrets].sort((a, b) => b.length - a.length))
+  };
+};
@@ -0,0 +1,77 @@
+/**
+ * Per-node retry policy
+ * Read from the retry* keys of a node's config:
+ *   retryMaxAttempts  total attempts including the first (1 = no retries)
+ *   retryBackoffMs    delay before the first retry
+ *   retryMultiplier   factor applied to the delay after each retry
+ *   retryJitter       'None', 'Full' (random 0..delay) or 'Equal' (delay/2 + random 0..delay/2)
+ *   retryOn           error categories that are retried (see errors.js)
+ */
+import { ERROR_CATEGORIES, classifyError } from './errors.js';
+
+export const DEFAULT_RETRY_ON = ['timeout', 'network', 'rate_limit', 'http_5xx'];
+
+const MAX_ATTEMPTS_LIMIT = 10;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+const toNumber = (value, fallback) => {
+  const number = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(number) ? number : fallback;
+};
+
+export const getRetryPolicy = (config = {}) => {
+  const retryOn = Array.isArray(config.retryOn)
+    ? config.retryOn.filter(category => ERROR_CATEGORIES.includes(category))
+    : DEFAULT_RETRY_ON;
+
+  return {
+    maxAttempts: Math.min(MAX_ATTEMPTS_LIMIT, Math.max(1, Math.floor(toNumber(config.retryMaxAttempts, 1)))),
+    backoffMs: Math.max(0, toNumber(config.retryBackoffMs, 1000)),
+    multiplier: Math.max(1, toNumber(config.retryMultiplier, 2)),
+    jitter: ['None', 'Full', 'Equal'].includes(config.retryJitter) ? config.retryJitter : 'Equal',
+    retryOn
+  };
+};
+
+// Delay before retry number `retry` (1 for the first retry)
+export const getRetryDelay = (policy, retry, random = Math.random) => {
+  const delay = Math.min(MAX_DELAY_MS, policy.backoffMs * Math.pow(policy.multiplier, retry - 1));
+
+  switch (policy.jitter) {
+    case 'Full':
+      return Math.round(random() * delay);
+    case 'Equal':
+      return Math.round(delay / 2 + random() * (delay / 2));
+    default:
+      return Math.round(delay);
+  }
+};
+
+/**
+ * Run `attemptFn(attempt)` until it succeeds, the error is not retryable, or
+ * the policy runs out of attempts. `onRetry` is awaited before each wait.
+ * Resolves with { result, attempts }; rejects with the last error, with
+ * `attempts` and `category` set on it.
+ */
+export const runWithRetry = async (attemptFn, policy, { onRetry } = {}) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await attemptFn(attempt);
+      return { result, attempts: attempt };
+    } catch (error) {
+      const category = classifyError(error);
+      error.attempts = attempt;
+      error.category = category;
+
+      if (attempt >= policy.maxAttempts || !policy.retryOn.includes(category)) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(policy, attempt);
+      if (onRetry) {
+        await onRetry({ error, category, attempt, delayMs });
+      }
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+};
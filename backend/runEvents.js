@@ -0,0 +1,74 @@
+/**
+ * Run events for the Server-Sent Events stream
+ * The process executing a run publishes its log entries, node state changes and
+ * final status here as they happen. Each event gets an id that increases per
+ * run, and the events of recent runs are kept in memory so a client that
+ * reconnects with Last-Event-ID gets exactly what it missed.
+ */
+import { EventEmitter } from 'events';
+
+// Runs with more events than this are replayed from a database snapshot instead
+const MAX_BUFFERED_EVENTS = parseInt(process.env.RUN_EVENTS_BUFFER_SIZE, 10) || 2000;
+// How long the events of a finished run stay available for reconnects
+const RETAIN_FINISHED_MS = 5 * 60 * 1000;
+
+export const FINAL_STATUSES = ['completed', 'failed'];
+
+const emitter = new EventEmitter();
+// One listener per open stream
+emitter.setMaxListeners(0);
+
+// runId -> { lastId, events, trimmed }
+const runs = new Map();
+
+export const publishRunEvent = (runId, type, data) => {
+  let run = runs.get(runId);
+  if (!run) {
+    run = { lastId: 0, events: [], trimmed: false };
+    runs.set(runId, run);
+  }
+
+  const event = { id: ++run.lastId, type, data };
+  run.events.push(event);
+  if (run.events.length > MAX_BUFFERED_EVENTS) {
+    run.events.shift();
+    run.trimmed = true;
+  }
+
+  emitter.emit(runId, event);
+
+  if (type === 'status' && FINAL_STATUSES.includes(data?.status)) {
+    setTimeout(() => runs.delete(runId), RETAIN_FINISHED_MS).unref();
+  }
+  return event;
+};
+
+/**
+ * Buffered events after `lastEventId` (all of them without one), or null when
+ * this process can't replay them and the caller has to send a snapshot.
+ */
+export const getBufferedRunEvents = (runId, lastEventId = null) => {
+  const run = runs.get(runId);
+  if (!run) {
+    return null;
+  }
+
+  const afterId = lastEventId === null ? 0 : parseInt(lastEventId, 10);
+  if (Number.isNaN(afterId) || afterId > run.lastId) {
+    return null;
+  }
+  // Events right after `afterId` were dropped from the buffer
+  if (run.trimmed && afterId < run.events[0].id - 1) {
+    return null;
+  }
+  return run.events.filter(event => event.id > afterId);
+};
+
+// Id of the latest event published for a run in this process, if any
+export const getLastRunEventId = (runId) => runs.get(runId)?.lastId ?? null;
+
+// Call `listener` with every new event of a run; returns the unsubscribe function
+export const subscribeToRunEvents = (runId, listener) => {
+  emitter.on(runId, listener);
+  return () => emitter.off(runId, listener);
+};
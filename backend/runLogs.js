@@ -0,0 +1,121 @@
+/**
+ * Run log storage
+ * Each log entry is one insert into the append-only `workflow_run_logs` table,
+ * ordered by its `seq`, so writers never read back or rewrite a run's logs.
+ * Entries are returned in the shape the frontend knows from the old
+ * `workflow_runs.logs` array, plus their `seq`.
+ */
+import { createClient } from '@supabase/supabase-js';
+import { publishRunEvent } from './runEvents.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY
+);
+
+export const LOG_LEVELS = ['info', 'warn', 'error'];
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+const toLogEntry = (row) => ({
+  seq: row.seq,
+  timestamp: row.logged_at,
+  level: row.level,
+  message: row.message,
+  nodeId: row.node_id,
+  data: row.data,
+  ...(row.attempt !== null && { attempt: row.attempt })
+});
+
+// Store a log entry ({ timestamp, level, message, nodeId, data, attempt }); resolves with its seq
+export const appendRunLog = async (runId, userId, entry) => {
+  const { data, error } = await supabase
+    .from('workflow_run_logs')
+    .insert({
+      run_id: runId,
+      user_id: userId,
+      node_id: entry.nodeId ?? null,
+      level: entry.level,
+      message: entry.message,
+      data: entry.data ?? null,
+      attempt: entry.attempt ?? null,
+      logged_at: entry.timestamp
+    })
+    .select('seq')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save log entry: ${error.message}`);
+  }
+  return data.seq;
+};
+
+/**
+ * Log function for one run: `(level, message, nodeId, data, attempt)`. Each
+ * entry is masked with `redact`, stored and published to the run's event
+ * stream; a failed insert is reported but never fails the run.
+ */
+export const createRunLogger = ({ runId, userId, redact = value => value }) =>
+  async (level, message, nodeId = null, data = null, attempt = null) => {
+    const logEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      message: redact(message),
+      nodeId,
+      data: redact(data),
+      ...(attempt !== null && { attempt })
+    };
+
+    try {
+      logEntry.seq = await appendRunLog(runId, userId, logEntry);
+      console.log(`📝 [${level.toUpperCase()}] ${logEntry.message}`);
+    } catch (error) {
+      console.error('Error adding log entry:', error);
+    }
+    publishRunEvent(runId, 'log', logEntry);
+  };
+
+// `%` and `_` in a search term match themselves
+const escapeLikePattern = (value) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+/**
+ * One page of a run's log entries in order, after the `after` seq. Filters by
+ * node, level and text in the message (case-insensitive). `nextCursor` is the
+ * `after` value for the following page, or null on the last page.
+ */
+export const listRunLogs = async (runId, { after = null, limit = DEFAULT_PAGE_SIZE, nodeId = null, level = null, search = null } = {}) => {
+  const pageSize = Math.min(Math.max(parseInt(limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  let query = supabase
+    .from('workflow_run_logs')
+    .select('*')
+    .eq('run_id', runId)
+    .order('seq', { ascending: true })
+    // One extra row tells whether there is another page
+    .limit(pageSize + 1);
+
+  if (after !== null && after !== undefined && after !== '') {
+    query = query.gt('seq', after);
+  }
+  if (nodeId) {
+    query = query.eq('node_id', nodeId);
+  }
+  if (level) {
+    query = query.eq('level', level);
+  }
+  if (search && search.trim()) {
+    query = query.ilike('message', `%${escapeLikePattern(search.trim())}%`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch logs: ${error.message}`);
+  }
+
+  const rows = data.slice(0, pageSize);
+  const hasMore = data.length > pageSize;
+  return {
+    logs: rows.map(toLogEntry),
+    nextCursor: hasMore ? rows[rows.length - 1].seq : null
+  };
+};
@@ -0,0 +1,124 @@
+/**
+ * Per-node run state
+ * Keeps one `workflow_run_nodes` row per node of a run (pending, running,
+ * succeeded, failed or skipped, with timing, the node's input and resolved
+ * config, and its output or error) and publishes every
+ * change as a run event, so the canvas can show a run's progress live. State is
+ * best effort: a failed write is logged and never fails the run itself.
+ */
+import { createClient } from '@supabase/supabase-js';
+import { publishRunEvent } from './runEvents.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY
+);
+
+// Larger inputs, configs and outputs are stored as a truncated preview
+const MAX_SNAPSHOT_CHARS = 100000;
+
+const toStoredSnapshot = (value) => {
+  if (value === undefined) {
+    return null;
+  }
+
+  const json = JSON.stringify(value);
+  if (json === undefined || json.length <= MAX_SNAPSHOT_CHARS) {
+    return value ?? null;
+  }
+  return { truncated: true, size: json.length, preview: json.slice(0, MAX_SNAPSHOT_CHARS) };
+};
+
+// Whether a stored value is only the preview of a larger one
+export const isTruncatedSnapshot = (value) =>
+  value !== null && typeof value === 'object' && value.truncated === true && typeof value.preview === 'string';
+
+// Stored node states of a run, keyed by node id
+export const loadRunNodeStates = async (runId) => {
+  const { data, error } = await supabase
+    .from('workflow_run_nodes')
+    .select('*')
+    .eq('run_id', runId);
+
+  if (error) {
+    throw new Error(`Failed to fetch node states: ${error.message}`);
+  }
+  return new Map(data.map(row => [row.node_id, row]));
+};
+
+/**
+ * Recorder for the node states of one run. `redact` masks secrets in inputs,
+ * configs, outputs and errors before they are stored.
+ */
+export const createRunStateRecorder = ({ runId, workflow, redact = value => value }) => {
+  const write = async (rows) => {
+    const { error } = await supabase
+      .from('workflow_run_nodes')
+      .upsert(rows, { onConflict: 'run_id,node_id' });
+
+    if (error) {
+      console.error(`Error saving node state for run ${runId}:`, error.message);
+    }
+    rows.forEach(row => publishRunEvent(runId, 'node', row));
+  };
+
+  const toRow = (nodeId, fields) => ({
+    run_id: runId,
+    workflow_id: workflow.id,
+    user_id: workflow.user_id,
+    node_id: nodeId,
+    ...fields,
+    updated_at: new Date().toISOString()
+  });
+
+  return {
+    // Every node starts out pending, except those that will never run
+    init: (pendingNodes, skippedNodes = []) => write([
+      ...pendingNodes.map(node => toRow(node.id, { status: 'pending' })),
+      ...skippedNodes.map(node => toRow(node.id, { status: 'skipped' }))
+    ]),
+
+    // `input` and `config` are what the node was started with, after templating
+    running: (nodeId, { input, config } = {}) => write([toRow(nodeId, {
+      status: 'running',
+      started_at: new Date().toISOString(),
+      input: toStoredSnapshot(redact(input)),
+      config: toStoredSnapshot(redact(config)),
+      completed_at: null,
+      duration_ms: null,
+      output: null,
+      error: null
+    })]),
+
+    succeeded: (nodeId, { output, duration, attempts }) => write([toRow(nodeId, {
+      status: 'succeeded',
+      completed_at: new Date().toISOString(),
+      duration_ms: duration,
+      attempts,
+      output: toStoredSnapshot(redact(output))
+    })]),
+
+    failed: (nodeId, { error, duration, attempts }) => write([toRow(nodeId, {
+      status: 'failed',
+      completed_at: new Date().toISOString(),
+      duration_ms: duration,
+      attempts,
+      error: redact(error)
+    })]),
+
+    skipped: (nodeId) => write([toRow(nodeId, { status: 'skipped', duration_ms: 0 })]),
+
+    // Copy a node's state from the run this one was resumed from
+    reused: (nodeId, stored) => write([toRow(nodeId, {
+      status: stored.status,
+      attempts: stored.attempts,
+      started_at: stored.started_at,
+      completed_at: stored.completed_at,
+      duration_ms: stored.duration_ms,
+      input: stored.input,
+      config: stored.config,
+      output: stored.output,
+      error: stored.error
+    })])
+  };
+};
@@ -2,69 +2,72 @@
  * Basic Scheduler for handling scheduled workflows
  */
 import { createClient } from '@supabase/supabase-js';
+import { getNextFireTime, getScheduleExpression } from './cron.js';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL,
   process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY
 );
 
-// In-memory storage for last run times (in production, this should be in database)
+// In-memory storage for the last fire time of each schedule node (keyed by workflow and node)
 const lastRunTimes = new Map();
 
-// Parse schedule interval to milliseconds
-const parseInterval = (interval) => {
-  switch (interval) {
-    case 'Every 5 minutes':
-      return 5 * 60 * 1000;
-    case 'Every hour':
-      return 60 * 60 * 1000;
-    case 'Daily':
-      return 24 * 60 * 60 * 1000;
-    case 'Weekly':
-      return 7 * 24 * 60 * 60 * 1000;
-    default:
-      return 60 * 60 * 1000; // Default to 1 hour
-  }
-};
+// When the scheduler started; schedules that have not fired yet fire from this point on
+let schedulerStartedAt = new Date();
 
-// Check if workflow should run based on schedule
-const shouldRunWorkflow = (workflow) => {
-  const scheduleNode = workflow.nodes.find(
-    node => (node.type === 'trigger' && node.subtype === 'schedule') ||
-            (node.data && node.data.type === 'trigger' && node.data.subtype === 'schedule')
-  );
-  
-  const config = scheduleNode?.config || scheduleNode?.data?.config;
-  if (!scheduleNode || !config?.interval) {
-    return false;
+const isScheduleNode = (node) =>
+  (node.type === 'trigger' && node.subtype === 'schedule') ||
+  (node.data && node.data.type === 'trigger' && node.data.subtype === 'schedule');
+
+/**
+ * Fire time a schedule node is due for, or null if it is not due.
+ * The next fire time is computed from the last scheduled fire (or the scheduler
+ * start), never from the workflow's last run: manual and webhook runs update
+ * that too, and must not push a due fire past the check that would catch it.
+ */
+const getDueFireTime = (workflow, node, now) => {
+  const config = node.config || node.data?.config || {};
+  const expression = getScheduleExpression(config);
+  if (!expression) {
+    return null;
   }
 
-  const interval = parseInterval(config.interval);
-  const lastRun = workflow.last_run_at ? new Date(workflow.last_run_at).getTime() : 0;
-  const now = Date.now();
-  
-  return (now - lastRun) >= interval;
+  const key = `${workflow.id}:${node.id}`;
+  const lastFire = lastRunTimes.get(key);
+  const anchor = lastFire && lastFire > schedulerStartedAt ? lastFire : schedulerStartedAt;
+
+  try {
+    const nextFire = getNextFireTime(expression, config.timezone || 'UTC', anchor);
+    return nextFire && nextFire <= now ? nextFire : null;
+  } catch (error) {
+    console.error(`❌ Invalid schedule for workflow ${workflow.id}: ${error.message}`);
+    return null;
+  }
 };
 
 // Add workflow to execution queue
-const queueWorkflowExecution = (workflowId, jobQueue) => {
-  const job = {
-    id: `scheduled_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    workflowId,
-    status: 'queued',
-    queuedAt: new Date().toISOString(),
+const queueWorkflowExecution = async (workflow, node, fireTime, enqueueWorkflowRun) => {
+  const config = node.config || node.data?.config || {};
+  lastRunTimes.set(`${workflow.id}:${node.id}`, fireTime);
+
+  await enqueueWorkflowRun(workflow, {
     source: 'scheduler',
-    position: jobQueue.length + 1
-  };
-  
-  jobQueue.push(job);
+    entryNodeId: node.id,
+    trigger: {
+      scheduledFor: fireTime.toISOString(),
+      firedAt: new Date().toISOString(),
+      expression: getScheduleExpression(config),
+      timezone: config.timezone || 'UTC'
+    }
+  });
   
-  console.log(`⏰ Scheduled workflow ${workflowId} for execution`);
+  console.log(`⏰ Scheduled workflow ${workflow.id} for execution (${fireTime.toISOString()})`);
 };
 
 // Main scheduler function
-export const startScheduler = (jobQueue) => {
+export const startScheduler = (enqueueWorkflowRun) => {
   console.log('🕐 Starting workflow scheduler...');
+  schedulerStartedAt = new Date();
   
   const checkScheduledWorkflows = async () => {
     try {
@@ -83,15 +86,17 @@ export const startScheduler = (jobQueue) => {
         return;
       }
       
-      // Check each workflow for schedule triggers
+      const now = new Date();
+
+      // Check each schedule trigger of each workflow
       for (const workflow of workflows) {
-        const hasScheduleTrigger = workflow.nodes.some(
-          node => (node.type === 'trigger' && node.subtype === 'schedule') ||
-                  (node.data && node.data.type === 'trigger' && node.data.subtype === 'schedule')
-        );
-        
-        if (hasScheduleTrigger && shouldRunWorkflow(workflow)) {
-          queueWorkflowExecution(workflow.id, jobQueue);
+        const scheduleNodes = (workflow.nodes || []).filter(isScheduleNode);
+
+        for (const node of scheduleNodes) {
+          const fireTime = getDueFireTime(workflow, node, now);
+          if (fireTime) {
+            await queueWorkflowExecution(workflow, node, fireTime, enqueueWorkflowRun);
+          }
         }
       }
       
@@ -103,8 +108,12 @@ export const startScheduler = (jobQueue) => {
     }
   };
   
-  // Check for scheduled workflows every minute
-  const schedulerInterval = setInterval(checkScheduledWorkflows, 60 * 1000);
+  // Check for scheduled workflows at the start of every minute
+  let schedulerInterval = null;
+  const alignTimeout = setTimeout(() => {
+    checkScheduledWorkflows();
+    schedulerInterval = setInterval(checkScheduledWorkflows, 60 * 1000);
+  }, 60 * 1000 - (Date.now() % (60 * 1000)) + 1000);
   
   // Initial check
   checkScheduledWorkflows();
@@ -112,7 +121,8 @@ export const startScheduler = (jobQueue) => {
   console.log('✅ Scheduler started - checking every minute for scheduled workflows');
   
   return () => {
+    clearTimeout(alignTimeout);
     clearInterval(schedulerInterval);
     console.log('🛑 Scheduler stopped');
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,102 @@
+/**
+ * Script Sandbox for running user-supplied JavaScript
+ * Each script runs in its own worker thread with a capped heap, inside a V8
+ * context that has no require, process, filesystem or network access.
+ */
+import { Worker } from 'worker_threads';
+
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.SCRIPT_TIMEOUT_MS, 10) || 1000;
+const DEFAULT_MEMORY_LIMIT_MB = parseInt(process.env.SCRIPT_MEMORY_LIMIT_MB, 10) || 64;
+
+// Extra time given to the worker itself (startup, serialization) on top of the script's CPU limit
+const WORKER_GRACE_MS = 1000;
+
+/**
+ * Run a script with `input` and `context` in scope.
+ * Resolves with { result, logs }; rejects when the script throws, returns
+ * something that is not JSON-serializable, or exceeds its time or memory limit.
+ * Console output is returned in `logs` in both cases (attached to the error).
+ */
+export const runScript = (script, {
+  input = null,
+  context = {},
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  memoryLimitMb = DEFAULT_MEMORY_LIMIT_MB
+} = {}) => {
+  if (!script || typeof script !== 'string') {
+    return Promise.reject(new Error('Script is required'));
+  }
+
+  let serializedInput;
+  let serializedContext;
+  try {
+    serializedInput = JSON.stringify(input === undefined ? null : input);
+    serializedContext = JSON.stringify(context || {});
+  } catch (error) {
+    return Promise.reject(new Error(`Script input is not serializable: ${error.message}`));
+  }
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+
+    const worker = new Worker(new URL('./scriptSandboxWorker.js', import.meta.url), {
+      workerData: {
+        script,
+        input: serializedInput,
+        context: serializedContext,
+        timeoutMs
+      },
+      resourceLimits: {
+        maxOldGenerationSizeMb: memoryLimitMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.floor(memoryLimitMb / 4)),
+        stackSizeMb: 4
+      },
+      env: {},
+      stdout: true,
+      stderr: true
+    });
+
+    const finish = (callback) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      worker.terminate();
+      callback();
+    };
+
+    const timer = setTimeout(() => {
+      finish(() => reject(new Error(`Script exceeded time limit of ${timeoutMs}ms`)));
+    }, timeoutMs + WORKER_GRACE_MS);
+
+    worker.once('message', (message) => {
+      finish(() => {
+        if (message.ok) {
+          resolve({
+            result: message.result === undefined ? undefined : JSON.parse(message.result),
+            logs: message.logs
+          });
+          return;
+        }
+
+        const timedOut = /Script execution timed out/.test(message.error);
+        const error = new Error(timedOut ? `Script exceeded time limit of ${timeoutMs}ms` : message.error);
+        error.logs = message.logs;
+        reject(error);
+      });
+    });
+
+    worker.once('error', (error) => {
+      finish(() => {
+        if (error.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+          reject(new Error(`Script exceeded memory limit of ${memoryLimitMb}MB`));
+        } else {
+          reject(new Error(`Script worker failed: ${error.message}`));
+        }
+      });
+    });
+
+    worker.once('exit', (code) => {
+      finish(() => reject(new Error(`Script worker exited unexpectedly (code ${code})`)));
+    });
+  });
+};
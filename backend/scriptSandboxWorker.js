@@ -0,0 +1,105 @@
+/**
+ * Worker entry point for the script sandbox.
+ * Runs one user script inside a fresh V8 context and posts the outcome back.
+ *
+ * Only strings cross the boundary between this worker and the script: input,
+ * context, console output and the return value are all (de)serialized as JSON
+ * inside the sandboxed context, so the script never holds a reference to an
+ * object (or Function constructor) from this realm.
+ */
+import { parentPort, workerData } from 'worker_threads';
+import vm from 'vm';
+
+const { script, input, context, timeoutMs } = workerData;
+
+const PRELUDE = `
+  const __logs = [];
+  const __format = (args) => args.map((arg) => {
+    if (typeof arg === 'string') return arg;
+    try {
+      return JSON.stringify(arg);
+    } catch (error) {
+      return String(arg);
+    }
+  }).join(' ');
+  const __console = (level) => (...args) => {
+    __logs.push({ level, message: __format(args) });
+  };
+  globalThis.console = {
+    log: __console('info'),
+    info: __console('info'),
+    debug: __console('info'),
+    warn: __console('warn'),
+    error: __console('error')
+  };
+  globalThis.__collectLogs = () => JSON.stringify(__logs);
+`;
+
+const sandbox = vm.createContext(Object.create(null), {
+  name: 'autoflow-script',
+  // Block eval / new Function and WebAssembly inside the sandbox
+  codeGeneration: { strings: false, wasm: false },
+  microtaskMode: 'afterEvaluate'
+});
+
+const run = (code) => new vm.Script(code, { filename: 'transform-script.js' }).runInContext(sandbox, { timeout: timeoutMs });
+
+const collectLogs = () => {
+  try {
+    return JSON.parse(run('__collectLogs()'));
+  } catch (error) {
+    return [];
+  }
+};
+
+const main = () => {
+  run(PRELUDE);
+  sandbox.__input = input;
+  sandbox.__context = context;
+
+  run(`
+    globalThis.__result = (function (input, context) {
+      'use strict';
+      ${script}
+    })(JSON.parse(__input), JSON.parse(__context));
+  `);
+
+  // Async scripts return a promise. The context drains its microtasks after
+  // each evaluation, so by the time this returns the promise has settled
+  // unless it is waiting on something that can never happen.
+  run(`
+    globalThis.__settled = false;
+    Promise.resolve(__result).then(
+      (value) => { globalThis.__result = value; globalThis.__settled = true; },
+      (error) => { globalThis.__failure = error; globalThis.__settled = true; }
+    );
+  `);
+
+  if (!run('__settled')) {
+    throw new Error('Script returned a promise that never settled');
+  }
+
+  const failure = run(`
+    '__failure' in globalThis
+      ? String(__failure && __failure.message !== undefined ? __failure.message : __failure)
+      : undefined
+  `);
+  if (failure !== undefined) {
+    throw new Error(failure);
+  }
+
+  const result = run('__result === undefined ? undefined : JSON.stringify(__result)');
+  parentPort.postMessage({ ok: true, result, logs: collectLogs() });
+};
+
+try {
+  main();
+} catch (error) {
+  let message;
+  try {
+    message = String(error && error.message !== undefined ? error.message : error);
+  } catch (formatError) {
+    message = 'Script failed';
+  }
+  parentPort.postMessage({ ok: false, error: message, logs: collectLogs() });
+}
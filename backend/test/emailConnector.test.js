@@ -0,0 +1,156 @@
+/**
+ * Email connector against a local SMTP catcher
+ */
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import { sendEmail } from '../connectors/emailConnector.js';
+import { ValidationError } from '../errors.js';
+
+// One entry per SMTP session the catcher accepted
+let sessions = [];
+
+// Accepts any login and message; AUTH PLAIN is decoded so tests can see who logged in
+const server = net.createServer(socket => {
+  const session = { auth: null, from: null, to: [], data: '' };
+  sessions.push(session);
+  let buffer = '';
+  let inData = false;
+
+  socket.write('220 catcher ESMTP\r\n');
+  socket.on('data', chunk => {
+    buffer += chunk.toString();
+    let index;
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          socket.write('250 2.0.0 queued\r\n');
+        } else {
+          session.data += `${line}\n`;
+        }
+      } else if (/^EHLO/i.test(line)) {
+        socket.write('250-catcher\r\n250 AUTH PLAIN\r\n');
+      } else if (/^AUTH PLAIN/i.test(line)) {
+        const [, user, pass] = Buffer.from(line.split(' ')[2], 'base64').toString().split('\0');
+        session.auth = { user, pass };
+        socket.write('235 2.7.0 accepted\r\n');
+      } else if (/^MAIL FROM:/i.test(line)) {
+        session.from = line.slice(10).replace(/[<>]/g, '').trim();
+        socket.write('250 ok\r\n');
+      } else if (/^RCPT TO:/i.test(line)) {
+        session.to.push(line.slice(8).replace(/[<>]/g, '').trim());
+        socket.write('250 ok\r\n');
+      } else if (/^DATA/i.test(line)) {
+        inData = true;
+        socket.write('354 end with .\r\n');
+      } else if (/^QUIT/i.test(line)) {
+        socket.end('221 bye\r\n');
+      } else {
+        socket.write('250 ok\r\n');
+      }
+    }
+  });
+});
+
+let port;
+
+before(async () => {
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = server.address().port;
+});
+
+after(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  sessions = [];
+});
+
+// A node with its own server and SMTP credential
+const node = (config) => ({
+  host: '127.0.0.1',
+  port,
+  security: 'None',
+  username: 'flows@example.com',
+  password: 'node-secret',
+  ...config
+});
+
+describe('delivery', () => {
+  test('delivers the message with attachments', async () => {
+    const result = await sendEmail(node({
+      from: 'reports@example.com',
+      to: 'ops@example.com, dev@example.com',
+      subject: 'Nightly report',
+      text: 'All jobs finished',
+      attachments: [{ filename: 'report.json', content: { jobs: 3 } }]
+    }));
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.accepted, ['ops@example.com', 'dev@example.com']);
+    assert.deepEqual(result.attachments.map(({ filename, contentType }) => ({ filename, contentType })), [
+      { filename: 'report.json', contentType: 'application/json' }
+    ]);
+
+    const [session] = sessions;
+    assert.equal(session.from, 'reports@example.com');
+    assert.deepEqual(session.to, ['ops@example.com', 'dev@example.com']);
+    assert.match(session.data, /Subject: Nightly report/);
+    assert.match(session.data, /All jobs finished/);
+    assert.match(session.data, /filename=report\.json/);
+  });
+
+  test('logs in with the node credential and sends from its username', async () => {
+    await sendEmail(node({ to: 'ops@example.com', html: '<p>Hi</p>' }));
+
+    assert.deepEqual(sessions[0].auth, { user: 'flows@example.com', pass: 'node-secret' });
+    assert.equal(sessions[0].from, 'flows@example.com');
+  });
+});
+
+describe('server and credential', () => {
+  test('are required from the node, never taken from SMTP_*', async () => {
+    process.env.SMTP_HOST = '127.0.0.1';
+    process.env.SMTP_PORT = String(port);
+    process.env.SMTP_USER = 'operator@example.com';
+    process.env.SMTP_PASS = 'operator-secret';
+    try {
+      await assert.rejects(
+        sendEmail({ security: 'None', from: 'flows@example.com', to: 'ops@example.com', text: 'Hi' }),
+        ValidationError
+      );
+      await assert.rejects(
+        sendEmail(node({ username: undefined, password: undefined, from: 'flows@example.com', to: 'ops@example.com', text: 'Hi' })),
+        ValidationError
+      );
+      assert.equal(sessions.length, 0);
+    } finally {
+      ['SMTP_HOST', 'SMTP_PORT', 'SMTP_USER', 'SMTP_PASS'].forEach(name => delete process.env[name]);
+    }
+  });
+});
+
+describe('validation', () => {
+  const base = { to: 'ops@example.com', text: 'Hi' };
+
+  test('requires a recipient', async () => {
+    await assert.rejects(sendEmail(node({ ...base, to: '' })), ValidationError);
+  });
+
+  test('requires a body', async () => {
+    await assert.rejects(sendEmail(node({ ...base, text: '' })), ValidationError);
+  });
+
+  test('rejects attachments that are not JSON', async () => {
+    await assert.rejects(sendEmail(node({ ...base, attachments: 'report.pdf' })), ValidationError);
+  });
+
+  test('rejects attachments without a filename', async () => {
+    await assert.rejects(sendEmail(node({ ...base, attachments: [{ content: 'x' }] })), ValidationError);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Webhook trigger helpers
+ * Matches inbound requests to the webhook node they were sent to and verifies
+ * their HMAC signature.
+ */
+import crypto from 'crypto';
+
+export const DEFAULT_SIGNATURE_HEADER = 'X-AutoFlow-Signature';
+
+// Constant-time string comparison that tolerates different lengths
+const safeEqual = (a, b) => {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  if (left.length !== right.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(left, right);
+};
+
+// Find the webhook trigger node whose token matches the one in the URL
+export const findWebhookNode = (workflow, token) => {
+  if (!token) return null;
+
+  return (workflow.nodes || []).find(node =>
+    node.type === 'trigger' &&
+    node.subtype === 'webhook' &&
+    node.config?.token &&
+    safeEqual(node.config.token, token)
+  ) || null;
+};
+
+/**
+ * Verify a `sha256=<hex>` HMAC signature over the raw request body.
+ * `signingSecret` is merged in from the node's credential (nodes saved before
+ * credentials existed may still hold it in their config). Nodes without a
+ * signing secret accept unsigned requests.
+ */
+export const verifyWebhookSignature = (node, headers, rawBody) => {
+  const { signingSecret, signatureHeader } = node.config || {};
+  if (!signingSecret) {
+    return { valid: true };
+  }
+
+  const headerName = (signatureHeader || DEFAULT_SIGNATURE_HEADER).toLowerCase();
+  const provided = headers[headerName];
+  if (!provided) {
+    return { valid: false, reason: `Missing ${signatureHeader || DEFAULT_SIGNATURE_HEADER} header` };
+  }
+
+  const expected = crypto
+    .createHmac('sha256', signingSecret)
+    .update(rawBody || Buffer.alloc(0))
+    .digest('hex');
+  const signature = String(provided).replace(/^sha256=/i, '');
+
+  if (!safeEqual(signature.toLowerCase(), expected)) {
+    return { valid: false, reason: 'Invalid signature' };
+  }
+
+  return { valid: true };
+};
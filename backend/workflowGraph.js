@@ -0,0 +1,183 @@
+/**
+ * Workflow graph utilities
+ * Turns the nodes and connections drawn on the canvas into an execution plan.
+ */
+
+// Build adjacency lists, ignoring connections that point at deleted nodes
+const buildAdjacency = (nodes, connections) => {
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const incoming = new Map();
+  const outgoing = new Map();
+
+  nodes.forEach(node => {
+    incoming.set(node.id, []);
+    outgoing.set(node.id, []);
+  });
+
+  connections.forEach(connection => {
+    if (!nodeIds.has(connection.source) || !nodeIds.has(connection.target)) {
+      return;
+    }
+    outgoing.get(connection.source).push(connection);
+    incoming.get(connection.target).push(connection);
+  });
+
+  return { incoming, outgoing };
+};
+
+// Collect every node reachable from the entry nodes
+const collectReachable = (entryNodes, outgoing) => {
+  const reachable = new Set();
+  const stack = entryNodes.map(node => node.id);
+
+  while (stack.length > 0) {
+    const nodeId = stack.pop();
+    if (reachable.has(nodeId)) continue;
+
+    reachable.add(nodeId);
+    outgoing.get(nodeId).forEach(connection => stack.push(connection.target));
+  }
+
+  return reachable;
+};
+
+const describeNodes = (nodes) => nodes.map(node => `"${node.label || node.id}"`).join(', ');
+
+/**
+ * Build an execution plan for a workflow.
+ *
+ * Nodes are ordered topologically from the trigger nodes (or, when a workflow
+ * has no trigger, from the nodes without incoming connections). Passing
+ * `entryNodeIds` starts the run from those nodes instead. Nodes that are
+ * not reachable from an entry point are left out of the order. Ties are broken
+ * by the order nodes were added to the canvas so runs are deterministic.
+ *
+ * Throws when the reachable part of the graph contains a cycle.
+ */
+export const buildExecutionPlan = (nodes = [], connections = [], { entryNodeIds = null } = {}) => {
+  const { incoming, outgoing } = buildAdjacency(nodes, connections);
+  const nodeIndex = new Map(nodes.map((node, index) => [node.id, index]));
+
+  const triggerNodes = nodes.filter(node => node.type === 'trigger');
+  let entryNodes;
+  if (entryNodeIds) {
+    entryNodes = nodes.filter(node => entryNodeIds.includes(node.id));
+  } else if (triggerNodes.length > 0) {
+    entryNodes = triggerNodes;
+  } else {
+    entryNodes = nodes.filter(node => incoming.get(node.id).length === 0);
+  }
+
+  if (nodes.length > 0 && entryNodes.length === 0) {
+    throw new Error(`Workflow contains a cycle between nodes: ${describeNodes(nodes)}`);
+  }
+
+  const reachable = collectReachable(entryNodes, outgoing);
+
+  // Kahn's algorithm restricted to the reachable subgraph
+  const inDegree = new Map();
+  reachable.forEach(nodeId => {
+    const degree = incoming.get(nodeId).filter(connection => reachable.has(connection.source)).length;
+    inDegree.set(nodeId, degree);
+  });
+
+  const ready = [...reachable].filter(nodeId => inDegree.get(nodeId) === 0);
+  const order = [];
+
+  while (ready.length > 0) {
+    ready.sort((a, b) => nodeIndex.get(a) - nodeIndex.get(b));
+    const nodeId = ready.shift();
+    order.push(nodes[nodeIndex.get(nodeId)]);
+
+    outgoing.get(nodeId).forEach(connection => {
+      const remaining = inDegree.get(connection.target) - 1;
+      inDegree.set(connection.target, remaining);
+      if (remaining === 0) {
+        ready.push(connection.target);
+      }
+    });
+  }
+
+  if (order.length < reachable.size) {
+    const cycleNodes = nodes.filter(node => reachable.has(node.id) && inDegree.get(node.id) > 0);
+    throw new Error(`Workflow contains a cycle between nodes: ${describeNodes(cycleNodes)}`);
+  }
+
+  return {
+    order,
+    entryNodes,
+    incoming,
+    outgoing,
+    unreachable: nodes.filter(node => !reachable.has(node.id))
+  };
+};
+
+/**
+ * Output handle a finished node routes to. Conditional nodes follow the
+ * 'true' or 'false' handle matching their result; other nodes have a single
+ * output and follow every outgoing connection.
+ */
+export const getSelectedHandle = (node, result) => {
+  if (node.subtype === 'conditional') {
+    return result?.result ? 'true' : 'false';
+  }
+  return null;
+};
+
+// Output handle every node has for routing its failure to an error handler
+export const ERROR_HANDLE = 'error';
+
+// Whether execution flows along a connection given the state of its source node
+export const isConnectionTaken = (connection, sourceState) => {
+  // Error connections are only followed when the source failed
+  if (connection.sourceHandle === ERROR_HANDLE) {
+    return sourceState?.status === 'failed';
+  }
+
+  if (!sourceState || sourceState.status !== 'succeeded') {
+    return false;
+  }
+
+  // Connections drawn before output handles existed are always followed
+  if (!connection.sourceHandle || !sourceState.handle) {
+    return true;
+  }
+
+  return connection.sourceHandle === sourceState.handle;
+};
+
+// Ids of every node upstream of the given node
+export const collectAncestors = (nodeId, incoming) => {
+  const ancestors = new Set();
+  const stack = [nodeId];
+
+  while (stack.length > 0) {
+    const current = stack.pop();
+    (incoming.get(current) || []).forEach(connection => {
+      if (!ancestors.has(connection.source)) {
+        ancestors.add(connection.source);
+        stack.push(connection.source);
+      }
+    });
+  }
+
+  return ancestors;
+};
+
+// Ids of every node downstream of the given node, along any connection
+export const collectDescendants = (nodeId, outgoing) => {
+  const descendants = new Set();
+  const stack = [nodeId];
+
+  while (stack.length > 0) {
+    const current = stack.pop();
+    (outgoing.get(current) || []).forEach(connection => {
+      if (!descendants.has(connection.target)) {
+        descendants.add(connection.target);
+        stack.push(connection.target);
+      }
+    });
+  }
+
+  return descendants;
+};
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { Lock, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { Credential, CredentialType } from '../types/workflow';
+import { createCredential, credentialTypes, deleteCredential, listCredentials, updateCredential } from '../lib/credentials';
+
+// Credential being created, or the one whose secret is being rotated
+type Editing = { mode: 'create' } | { mode: 'rotate'; credential: Credential };
+
+export const CredentialsSettings: React.FC = () => {
+  const [credentials, setCredentials] = useState<Credential[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<CredentialType>('http_bearer');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    listCredentials()
+      .then(setCredentials)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load credentials'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const startEditing = (next: Editing) => {
+    setEditing(next);
+    setName(next.mode === 'rotate' ? next.credential.name : '');
+    setType(next.mode === 'rotate' ? next.credential.type : 'http_bearer');
+    setValues({});
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      if (editing.mode === 'create') {
+        const credential = await createCredential(name, type, values);
+        setCredentials(current => [...current, credential].sort((a, b) => a.name.localeCompare(b.name)));
+      } else {
+        // Only the fields that were filled in are replaced
+        const data = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== ''));
+        const credential = await updateCredential(editing.credential.id, {
+          name,
+          ...(Object.keys(data).length > 0 && { data })
+        });
+        setCredentials(current => current.map(item => (item.id === credential.id ? credential : item)));
+      }
+      setEditing(null);
+      setValues({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save credential');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (credential: Credential) => {
+    if (!confirm(`Delete the credential "${credential.name}"? Nodes using it will fail until another credential is selected.`)) {
+      return;
+    }
+
+    try {
+      await deleteCredential(credential.id);
+      setCredentials(current => current.filter(item => item.id !== credential.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete credential');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-blue-50 rounded-lg flex items-center justify-center">
+              <Lock className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Credentials</h2>
+              <p className="text-sm text-gray-600">Encrypted secrets that nodes can use without storing them in the workflow</p>
+            </div>
+          </div>
+          <button
+            onClick={() => startEditing({ mode: 'create' })}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center space-x-1 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New Credential</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 bg-red-50 border border-red-200 text-red-700 text-sm rounded-md px-3 py-2">{error}</div>
+      )}
+
+      {editing && (
+        <div className="p-6 border-b border-gray-200 bg-gray-50 space-y-4">
+          <h3 className="text-sm font-medium text-gray-900">
+            {editing.mode === 'create' ? 'New credential' : `Rotate "${editing.credential.name}"`}
+          </h3>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Production API"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+            <select
+              value={type}
+              disabled={editing.mode === 'rotate'}
+              onChange={(e) => {
+                setType(e.target.value as CredentialType);
+                setValues({});
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+            >
+              {Object.entries(credentialTypes).map(([key, definition]) => (
+                <option key={key} value={key}>{definition.label}</option>
+              ))}
+            </select>
+          </div>
+          {credentialTypes[type].fields.map((field) => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+              <input
+                type={field.secret ? 'password' : 'text'}
+                value={values[field.key] || ''}
+                onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                placeholder={editing.mode === 'rotate' ? 'Leave empty to keep the current value' : undefined}
+                autoComplete="off"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          ))}
+          <div className="flex space-x-3">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={() => setEditing(null)}
+              className="bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="divide-y divide-gray-200">
+        {loading && <p className="p-6 text-sm text-gray-500">Loading credentials...</p>}
+        {!loading && credentials.length === 0 && (
+          <p className="p-6 text-sm text-gray-500">No credentials yet. Create one to use it in Slack, HTTP, Database and Email nodes.</p>
+        )}
+        {credentials.map((credential) => (
+          <div key={credential.id} className="p-6 hover:bg-gray-50 transition-colors">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-sm font-medium text-gray-900">{credential.name}</h3>
+                <p className="text-sm text-gray-600 mt-1">
+                  {credentialTypes[credential.type]?.label || credential.type} · last rotated {new Date(credential.rotated_at).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => startEditing({ mode: 'rotate', credential })}
+                  className="p-2 text-gray-400 hover:text-blue-600 hover:bg-gray-100 rounded transition-colors"
+                  title="Rotate secret"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(credential)}
+                  className="p-2 text-gray-400 hover:text-red-600 hover:bg-gray-100 rounded transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -19,6 +19,8 @@ import {
 import { ViewType } from '../App';
 import { useWorkflowContext } from '../context/WorkflowContext';
 import { supabase } from '../lib/supabaseClient';
+import { useRunState } from '../hooks/useRunState';
+import { RunLogsPanel } from './RunLogsPanel';
 
 interface DashboardProps {
   onViewChange: (view: ViewType, workflowId?: string) => void;
@@ -42,6 +44,19 @@ export const Dashboard: React.FC<DashboardProps> = ({ onViewChange }) => {
   const [selectedRun, setSelectedRun] = useState<any>(null);
   const [showRunDetails, setShowRunDetails] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  // A run that is still in progress is followed live while its details are open
+  const liveRun = useRunState(showRunDetails && selectedRun?.status === 'running' ? selectedRun.id : null);
+
+  useEffect(() => {
+    const status = liveRun.status?.status;
+    if (status !== 'completed' && status !== 'failed') return;
+
+    const completedAt = liveRun.status?.completedAt || new Date().toISOString();
+    setSelectedRun({ ...selectedRun, status, completed_at: completedAt });
+    setRecentRuns(current => current.map(run =>
+      run.id === selectedRun.id ? { ...run, status, completed_at: completedAt } : run
+    ));
+  }, [liveRun.status, selectedRun]);
 
   // Fetch recent workflow runs
   useEffect(() => {
@@ -525,29 +540,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ onViewChange }) => {
 
                 <div>
                   <h3 className="text-lg font-medium text-gray-900 mb-4">Execution Logs</h3>
-                  <div className="bg-gray-50 rounded-lg p-4 max-h-96 overflow-auto">
-                    {selectedRun.logs && selectedRun.logs.length > 0 ? (
-                      <div className="space-y-2">
-                        {selectedRun.logs.map((log: any, index: number) => (
-                          <div key={index} className="flex items-start space-x-3 text-sm">
-                            <span className="text-gray-500 font-mono text-xs">
-                              {new Date(log.timestamp).toLocaleTimeString()}
-                            </span>
-                            <span className={`px-2 py-0.5 rounded text-xs font-medium ${
-                              log.level === 'error' ? 'bg-red-100 text-red-800' :
-                              log.level === 'warn' ? 'bg-yellow-100 text-yellow-800' :
-                              'bg-blue-100 text-blue-800'
-                            }`}>
-                              {log.level.toUpperCase()}
-                            </span>
-                            <span className="text-gray-900 flex-1">{log.message}</span>
-                          </div>
-                        ))}
-                      </div>
-                    ) : (
-                      <p className="text-gray-500 text-center">No logs available</p>
-                    )}
-                  </div>
+                  <RunLogsPanel
+                    runId={selectedRun.id}
+                    nodes={selectedRun.workflows.nodes || []}
+                    liveLogs={liveRun.logs}
+                    isLive={selectedRun.status === 'running'}
+                  />
                 </div>
               </div>
             </div>
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+interface JsonTreeProps {
+  value: unknown;
+  name?: string;
+  depth?: number;
+  defaultExpandDepth?: number; // Objects and arrays nested deeper start collapsed
+}
+
+const renderPrimitive = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return <span className="text-gray-400">null</span>;
+  }
+  if (typeof value === 'string') {
+    return <span className="text-green-700 break-all">"{value}"</span>;
+  }
+  if (typeof value === 'number') {
+    return <span className="text-blue-700">{value}</span>;
+  }
+  if (typeof value === 'boolean') {
+    return <span className="text-purple-700">{String(value)}</span>;
+  }
+  return <span className="text-gray-700">{String(value)}</span>;
+};
+
+// Collapsible view of a JSON value
+export const JsonTree: React.FC<JsonTreeProps> = ({ value, name, depth = 0, defaultExpandDepth = 1 }) => {
+  const [expanded, setExpanded] = useState(depth < defaultExpandDepth);
+  const label = name !== undefined && <span className="text-gray-600">{name}: </span>;
+
+  if (value === null || typeof value !== 'object') {
+    return (
+      <div className="font-mono text-xs pl-4">
+        {label}
+        {renderPrimitive(value)}
+      </div>
+    );
+  }
+
+  const isArray = Array.isArray(value);
+  const entries = isArray
+    ? (value as unknown[]).map((item, index) => [String(index), item] as const)
+    : Object.entries(value as Record<string, unknown>);
+  const summary = isArray ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <div className="font-mono text-xs">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center text-left hover:bg-gray-100 rounded"
+      >
+        {expanded ? <ChevronDown className="w-3 h-3 text-gray-400" /> : <ChevronRight className="w-3 h-3 text-gray-400" />}
+        <span className="ml-1">
+          {label}
+          <span className="text-gray-400">{summary}</span>
+        </span>
+      </button>
+      {expanded && (
+        <div className="pl-3 border-l border-gray-200 ml-1.5">
+          {entries.length === 0 ? (
+            <div className="pl-4 text-gray-400">empty</div>
+          ) : (
+            entries.map(([key, item]) => (
+              <JsonTree key={key} name={key} value={item} depth={depth + 1} defaultExpandDepth={defaultExpandDepth} />
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,57 +1,178 @@
-import React, { useState } from 'react';
-import { X, Save } from 'lucide-react';
-import { WorkflowNode } from '../types/workflow';
+import React, { useEffect, useState } from 'react';
+import { X, Save, Copy, RefreshCw, ChevronDown, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import { Credential, CredentialType, ErrorCategory, WorkflowNode } from '../types/workflow';
+import { credentialTypes, listCredentials } from '../lib/credentials';
+import { backendUrl } from '../lib/backendClient';
+import { SchedulePreview } from './SchedulePreview';
 
 interface NodeConfigPanelProps {
   node: WorkflowNode;
+  workflowId: string;
   onConfigChange: (config: Record<string, any>) => void;
   onClose: () => void;
 }
 
+const generateWebhookToken = () => crypto.randomUUID().replace(/-/g, '');
+
+const errorCategoryLabels: Record<ErrorCategory, string> = {
+  timeout: 'Timeouts',
+  network: 'Network errors',
+  rate_limit: 'Rate limits (429)',
+  http_5xx: 'Server errors (5xx)',
+  http_4xx: 'Client errors (4xx)',
+  validation: 'Invalid configuration',
+  unknown: 'Other errors'
+};
+
+// Retried by default when a node doesn't choose its own categories
+const defaultRetryOn: ErrorCategory[] = ['timeout', 'network', 'rate_limit', 'http_5xx'];
+
+// Retry policy settings available on every node
+const advancedFields = [
+  { key: 'retryMaxAttempts', label: 'Max Attempts', type: 'number', placeholder: '1 (no retries)' },
+  { key: 'retryBackoffMs', label: 'Initial Backoff (ms)', type: 'number', placeholder: '1000' },
+  { key: 'retryMultiplier', label: 'Backoff Multiplier', type: 'number', placeholder: '2' },
+  { key: 'retryJitter', label: 'Jitter', type: 'select', options: ['None', 'Full', 'Equal'] },
+  { key: 'retryOn', label: 'Retry On', type: 'multiselect', options: Object.keys(errorCategoryLabels) }
+];
+
 export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({
   node,
+  workflowId,
   onConfigChange,
   onClose
 }) => {
-  const [config, setConfig] = useState(node.config || {});
+  // Webhook nodes get their secret URL token the first time they are configured,
+  // Slack nodes a mode matching the settings they already have
+  const [config, setConfig] = useState<WorkflowNode['config']>(() => {
+    if (node.subtype === 'webhook' && !node.config?.token) {
+      return { ...node.config, token: generateWebhookToken() };
+    }
+    if (node.subtype === 'slack' && !node.config?.mode) {
+      return { ...node.config, mode: node.config?.webhookUrl ? 'Incoming Webhook' : 'Bot Token' };
+    }
+    return node.config || {};
+  });
+  const [showAdvanced, setShowAdvanced] = useState(() =>
+    advancedFields.some(field => node.config?.[field.key] !== undefined)
+  );
+  const [credentials, setCredentials] = useState<Credential[] | null>(null);
 
   const getConfigFields = () => {
     switch (node.subtype) {
       case 'gmail':
         return [
+          { key: 'host', label: 'IMAP Server', type: 'text', placeholder: 'imap.gmail.com' },
+          { key: 'port', label: 'Port', type: 'number', placeholder: '993' },
+          { key: 'security', label: 'Security', type: 'select', options: ['SSL/TLS', 'STARTTLS', 'None'] },
+          { key: 'credentialId', label: 'IMAP Credential', type: 'credential', credentialType: 'imap' },
           { key: 'folder', label: 'Folder', type: 'select', options: ['Inbox', 'Sent', 'Drafts', 'Spam'] },
           { key: 'subject_filter', label: 'Subject Filter', type: 'text' },
           { key: 'sender_filter', label: 'Sender Filter', type: 'text' }
         ];
       case 'webhook':
         return [
-          { key: 'url', label: 'Webhook URL', type: 'url' },
+          { key: 'token', label: 'Webhook URL', type: 'webhook-url' },
           { key: 'method', label: 'HTTP Method', type: 'select', options: ['POST', 'GET', 'PUT', 'DELETE'] },
-          { key: 'headers', label: 'Headers (JSON)', type: 'textarea' }
+          { key: 'credentialId', label: 'Signing Secret Credential', type: 'credential', credentialType: 'webhook_secret', placeholder: 'None (accept unsigned requests)' },
+          { key: 'signatureHeader', label: 'Signature Header', type: 'text', placeholder: 'X-AutoFlow-Signature' }
         ];
       case 'schedule':
         return [
-          { key: 'interval', label: 'Interval', type: 'select', options: ['Every 5 minutes', 'Every hour', 'Daily', 'Weekly'] },
-          { key: 'timezone', label: 'Timezone', type: 'select', options: ['UTC', 'America/New_York', 'Europe/London', 'Asia/Tokyo'] }
+          { key: 'interval', label: 'Interval', type: 'select', options: ['Every 5 minutes', 'Every hour', 'Daily', 'Weekly', 'Custom (cron)'] },
+          { key: 'cron', label: 'Cron Expression (minute hour day month weekday)', type: 'text', placeholder: '0 9 * * 1-5' },
+          {
+            key: 'timezone',
+            label: 'Timezone',
+            type: 'select',
+            options: [
+              'UTC',
+              'America/New_York',
+              'America/Chicago',
+              'America/Denver',
+              'America/Los_Angeles',
+              'America/Sao_Paulo',
+              'Europe/London',
+              'Europe/Paris',
+              'Europe/Berlin',
+              'Africa/Johannesburg',
+              'Asia/Dubai',
+              'Asia/Karachi',
+              'Asia/Kolkata',
+              'Asia/Singapore',
+              'Asia/Tokyo',
+              'Australia/Sydney',
+              'Pacific/Auckland'
+            ]
+          }
         ];
       case 'slack':
         return [
-          { key: 'channel', label: 'Channel', type: 'text', placeholder: '#general' },
+          { key: 'mode', label: 'Send With', type: 'select', options: ['Bot Token', 'Incoming Webhook'] },
+          { key: 'credentialId', label: 'Bot Token Credential', type: 'credential', credentialType: 'slack_bot', showIf: { mode: 'Bot Token' } },
+          { key: 'credentialId', label: 'Incoming Webhook Credential', type: 'credential', credentialType: 'slack_webhook', showIf: { mode: 'Incoming Webhook' } },
+          { key: 'channel', label: 'Channel', type: 'text', placeholder: '#general or C0123456789', showIf: { mode: 'Bot Token' } },
           { key: 'message', label: 'Message Template', type: 'textarea', placeholder: 'Hello {{name}}!' },
+          { key: 'blocks', label: 'Blocks (Block Kit JSON)', type: 'textarea', placeholder: '[{"type": "section", "text": {"type": "mrkdwn", "text": "*Hello*"}}]' },
+          { key: 'threadTs', label: 'Reply in Thread (thread_ts)', type: 'text', placeholder: '{{nodes.slack_1.ts}}' },
           { key: 'username', label: 'Bot Username', type: 'text' }
         ];
       case 'http':
         return [
           { key: 'url', label: 'URL', type: 'url', required: true },
-          { key: 'method', label: 'Method', type: 'select', options: ['GET', 'POST', 'PUT', 'DELETE'] },
-          { key: 'headers', label: 'Headers (JSON)', type: 'textarea', placeholder: '{"Content-Type": "application/json"}' },
-          { key: 'body', label: 'Request Body', type: 'textarea', placeholder: '{"key": "value"}' }
+          { key: 'method', label: 'Method', type: 'select', options: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD'] },
+          { key: 'queryParams', label: 'Query Parameters', type: 'keyvalue', itemLabel: 'parameter' },
+          { key: 'headers', label: 'Headers (JSON)', type: 'textarea', placeholder: '{"Accept": "application/json"}' },
+          { key: 'authType', label: 'Authentication', type: 'select', options: ['None', 'Basic Auth', 'Bearer Token', 'API Key', 'OAuth2 Client Credentials'] },
+          { key: 'credentialId', label: 'Basic Auth Credential', type: 'credential', credentialType: 'http_basic', showIf: { authType: 'Basic Auth' } },
+          { key: 'credentialId', label: 'Bearer Token Credential', type: 'credential', credentialType: 'http_bearer', showIf: { authType: 'Bearer Token' } },
+          { key: 'apiKeyName', label: 'Key Name', type: 'text', placeholder: 'X-API-Key', showIf: { authType: 'API Key' } },
+          { key: 'credentialId', label: 'API Key Credential', type: 'credential', credentialType: 'http_api_key', showIf: { authType: 'API Key' } },
+          { key: 'apiKeyLocation', label: 'Send Key In', type: 'select', options: ['Header', 'Query'], showIf: { authType: 'API Key' } },
+          { key: 'tokenUrl', label: 'Token URL', type: 'text', placeholder: 'https://auth.example.com/oauth/token', showIf: { authType: 'OAuth2 Client Credentials' } },
+          { key: 'credentialId', label: 'Client Credential', type: 'credential', credentialType: 'oauth2_client', showIf: { authType: 'OAuth2 Client Credentials' } },
+          { key: 'scope', label: 'Scope', type: 'text', placeholder: 'read write', showIf: { authType: 'OAuth2 Client Credentials' } },
+          { key: 'bodyType', label: 'Body Type', type: 'select', options: ['JSON', 'Form URL-Encoded', 'Multipart Form', 'Raw'], showIf: { method: ['POST', 'PUT', 'PATCH', 'DELETE'] } },
+          { key: 'body', label: 'Request Body', type: 'textarea', placeholder: '{"key": "value"}', showIf: { method: ['POST', 'PUT', 'PATCH', 'DELETE'] } },
+          { key: 'responseFormat', label: 'Response Format', type: 'select', options: ['Auto', 'JSON', 'Text'] },
+          { key: 'pagination', label: 'Pagination', type: 'select', options: ['None', 'Cursor', 'Page / Offset', 'Link Header'] },
+          { key: 'itemsPath', label: 'Items Path', type: 'text', placeholder: 'data.items (empty if the response is an array)', showIf: { pagination: ['Cursor', 'Page / Offset', 'Link Header'] } },
+          { key: 'cursorPath', label: 'Next Cursor Path', type: 'text', placeholder: 'meta.next_cursor', showIf: { pagination: 'Cursor' } },
+          { key: 'cursorParam', label: 'Cursor Query Parameter', type: 'text', placeholder: 'cursor', showIf: { pagination: 'Cursor' } },
+          { key: 'pageParam', label: 'Page/Offset Query Parameter', type: 'text', placeholder: 'page or offset', showIf: { pagination: 'Page / Offset' } },
+          { key: 'pageStart', label: 'First Page/Offset', type: 'number', placeholder: '1', showIf: { pagination: 'Page / Offset' } },
+          { key: 'pageIncrement', label: 'Increment (1 for pages, page size for offsets)', type: 'number', placeholder: '1', showIf: { pagination: 'Page / Offset' } },
+          { key: 'maxPages', label: 'Max Pages', type: 'number', placeholder: '10', showIf: { pagination: ['Cursor', 'Page / Offset', 'Link Header'] } },
+          { key: 'timeoutMs', label: 'Timeout (ms)', type: 'number', placeholder: '30000' },
+          { key: 'failOnError', label: 'Fail on Non-2xx Status', type: 'select', options: ['Yes', 'No'] }
         ];
       case 'database':
         return [
-          { key: 'operation', label: 'Operation', type: 'select', options: ['Insert', 'Update', 'Delete', 'Select'] },
-          { key: 'table', label: 'Table Name', type: 'text' },
-          { key: 'query', label: 'SQL Query', type: 'textarea', placeholder: 'SELECT * FROM table_name WHERE condition' }
+          { key: 'credentialId', label: 'Postgres Credential', type: 'credential', credentialType: 'postgres', required: true },
+          { key: 'operation', label: 'Operation', type: 'select', options: ['Custom Query', 'Insert', 'Update', 'Delete', 'Select'] },
+          { key: 'table', label: 'Table Name', type: 'text', placeholder: 'public.orders', showIf: { operation: ['Insert', 'Update', 'Delete', 'Select'] } },
+          { key: 'values', label: 'Values (JSON)', type: 'textarea', placeholder: '{"email": "{{trigger.body.email}}", "status": "new"}', showIf: { operation: ['Insert', 'Update'] } },
+          { key: 'where', label: 'Where (JSON, column equals value)', type: 'textarea', placeholder: '{"id": "{{previous_node.id}}"}', showIf: { operation: ['Update', 'Delete', 'Select'] } },
+          { key: 'query', label: 'SQL Query', type: 'textarea', placeholder: 'SELECT * FROM orders WHERE customer_id = $1', showIf: { operation: ['Custom Query', ''] } },
+          { key: 'params', label: 'Parameters (JSON array for $1, $2, ...)', type: 'textarea', placeholder: '["{{trigger.body.customer_id}}"]', showIf: { operation: ['Custom Query', ''] } },
+          { key: 'timeoutMs', label: 'Query Timeout (ms)', type: 'number', placeholder: '30000' },
+          { key: 'maxRows', label: 'Max Rows Returned', type: 'number', placeholder: '1000' }
+        ];
+      case 'email':
+        return [
+          { key: 'host', label: 'SMTP Server', type: 'text', placeholder: 'smtp.gmail.com', required: true },
+          { key: 'port', label: 'Port', type: 'number', placeholder: '587' },
+          { key: 'security', label: 'Security', type: 'select', options: ['STARTTLS', 'SSL/TLS', 'None'] },
+          { key: 'credentialId', label: 'SMTP Credential', type: 'credential', credentialType: 'smtp', required: true },
+          { key: 'from', label: 'From', type: 'text', placeholder: 'AutoFlow <alerts@example.com> (defaults to the credential username)' },
+          { key: 'to', label: 'To', type: 'text', placeholder: 'a@example.com, {{trigger.body.email}}', required: true },
+          { key: 'cc', label: 'CC', type: 'text' },
+          { key: 'bcc', label: 'BCC', type: 'text' },
+          { key: 'replyTo', label: 'Reply-To', type: 'text' },
+          { key: 'subject', label: 'Subject', type: 'text', placeholder: 'Order {{trigger.body.id}} received' },
+          { key: 'text', label: 'Text Body', type: 'textarea', placeholder: 'Hello {{trigger.body.name}},' },
+          { key: 'html', label: 'HTML Body', type: 'textarea', placeholder: '<p>Hello <b>{{trigger.body.name}}</b>,</p>' },
+          { key: 'attachments', label: 'Attachments (JSON)', type: 'textarea', placeholder: '[{"filename": "report.json", "content": "{{nodes.http_1.data}}"}]' }
         ];
       case 'conditional':
         return [
@@ -69,13 +190,16 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({
         return [
           { key: 'action', label: 'Error Action', type: 'select', options: ['Log Error', 'Send Notification', 'Retry', 'Stop Workflow'] },
           { key: 'message', label: 'Error Message Template', type: 'textarea', placeholder: 'Error occurred: {{error.message}}' },
-          { key: 'retryCount', label: 'Retry Count', type: 'number', placeholder: '3' }
+          { key: 'credentialId', label: 'Slack Bot Token Credential', type: 'credential', credentialType: 'slack_bot', showIf: { action: 'Send Notification' } },
+          { key: 'channel', label: 'Notification Channel (Slack)', type: 'text', placeholder: '#alerts', showIf: { action: 'Send Notification' } },
+          { key: 'retryCount', label: 'Retry Count', type: 'number', placeholder: '1' }
         ];
       case 'transform':
         return [
           { key: 'transformationType', label: 'Transformation Type', type: 'select', options: ['JSON Parse', 'JSON Stringify', 'Extract Field', 'Format String', 'Custom Script'] },
-          { key: 'inputField', label: 'Input Field Path', type: 'text', placeholder: 'data.result.value' },
+          { key: 'inputField', label: 'Input Field Path', type: 'text', placeholder: 'data.items[0].value' },
           { key: 'outputField', label: 'Output Field Name', type: 'text', placeholder: 'transformed_value' },
+          { key: 'template', label: 'Format Template', type: 'textarea', placeholder: 'Order {{id}} for {{customer.name}}' },
           { key: 'script', label: 'Transformation Script', type: 'textarea', placeholder: 'return input.toUpperCase();' }
         ];
       default:
@@ -83,7 +207,23 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({
     }
   };
 
-  const fields = getConfigFields();
+  // Fields can be limited to particular values of another field (e.g. the Slack mode);
+  // '' matches a field that hasn't been set
+  const fields = getConfigFields().filter(field => {
+    const { showIf } = field as { showIf?: Record<string, string | string[]> };
+    return !showIf || Object.entries(showIf).every(([key, expected]) =>
+      Array.isArray(expected) ? expected.includes(config[key] || '') : config[key] === expected
+    );
+  });
+
+  // Stored credentials are only fetched for nodes that can use one
+  const usesCredentials = getConfigFields().some(field => field.type === 'credential');
+  useEffect(() => {
+    if (!usesCredentials) return;
+    listCredentials()
+      .then(setCredentials)
+      .catch(() => setCredentials([]));
+  }, [usesCredentials]);
 
   const handleFieldChange = (key: string, value: any) => {
     // Basic validation
@@ -93,6 +233,10 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({
     }
     
     const newConfig = { ...config, [key]: value };
+    // Each mode and auth type takes a different type of credential
+    if ((key === 'mode' || key === 'authType') && value !== config[key]) {
+      delete newConfig.credentialId;
+    }
     setConfig(newConfig);
   };
 
@@ -128,7 +272,16 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({
       return;
     }
     
-    onConfigChange(config);
+    // Once a credential is picked, drop any secret typed into the node before credentials existed
+    const savedConfig = { ...config };
+    fields.forEach(field => {
+      const { credentialType } = field as { credentialType?: CredentialType };
+      if (credentialType && config[field.key]) {
+        credentialTypes[credentialType].fields.forEach(({ key }) => delete savedConfig[key]);
+      }
+    });
+    setConfig(savedConfig);
+    onConfigChange(savedConfig);
     
     // Show a temporary success message
     const successMessage = document.createElement('div');
@@ -165,6 +318,132 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({
             ))}
           </select>
         );
+      case 'multiselect': {
+        const selected: string[] = Array.isArray(config[field.key]) ? config[field.key] : defaultRetryOn;
+        return (
+          <div className="space-y-1">
+            {field.options.map((option: string) => (
+              <label key={option} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option)}
+                  onChange={(e) => handleFieldChange(
+                    field.key,
+                    e.target.checked ? [...selected, option] : selected.filter(item => item !== option)
+                  )}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>{errorCategoryLabels[option as ErrorCategory] || option}</span>
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case 'keyvalue': {
+        const pairs: { key: string; value: string }[] = Array.isArray(config[field.key]) ? config[field.key] : [];
+        const updatePair = (index: number, changes: Partial<{ key: string; value: string }>) => handleFieldChange(
+          field.key,
+          pairs.map((pair, i) => (i === index ? { ...pair, ...changes } : pair))
+        );
+        return (
+          <div className="space-y-2">
+            {pairs.map((pair, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={pair.key}
+                  onChange={(e) => updatePair(index, { key: e.target.value })}
+                  placeholder="Name"
+                  className="w-1/2 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                />
+                <input
+                  type="text"
+                  value={pair.value}
+                  onChange={(e) => updatePair(index, { value: e.target.value })}
+                  placeholder="Value"
+                  className="w-1/2 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={() => handleFieldChange(field.key, pairs.filter((_, i) => i !== index))}
+                  className="p-2 text-gray-400 hover:text-red-600 hover:bg-gray-100 rounded transition-colors"
+                  title="Remove"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => handleFieldChange(field.key, [...pairs, { key: '', value: '' }])}
+              className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add {field.itemLabel || 'row'}</span>
+            </button>
+          </div>
+        );
+      }
+      case 'credential': {
+        const options = (credentials || []).filter(credential => credential.type === field.credentialType);
+        return (
+          <div className="space-y-1">
+            <select
+              value={value}
+              onChange={(e) => handleFieldChange(field.key, e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">{field.placeholder || 'Select a credential'}</option>
+              {options.map((credential) => (
+                <option key={credential.id} value={credential.id}>
+                  {credential.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500">
+              {credentials === null
+                ? 'Loading credentials... '
+                : options.length === 0 && `No ${credentialTypes[field.credentialType as CredentialType].label} credentials yet. `}
+              Create and rotate credentials in Settings.
+            </p>
+          </div>
+        );
+      }
+      case 'webhook-url': {
+        const webhookUrl = `${backendUrl}/hooks/${workflowId}/${value}`;
+        return (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                readOnly
+                value={webhookUrl}
+                onFocus={(e) => e.target.select()}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-50 text-xs font-mono"
+              />
+              <button
+                type="button"
+                onClick={() => navigator.clipboard.writeText(webhookUrl)}
+                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                title="Copy URL"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleFieldChange(field.key, generateWebhookToken())}
+                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                title="Generate a new URL (the old one stops working once saved)"
+              >
+                <RefreshCw className="w-4 h-4" />
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Send {config.method || 'POST'} requests here to start this workflow. Save the configuration and enable the workflow to activate it.
+            </p>
+          </div>
+        );
+      }
       case 'textarea':
         return (
           <textarea
@@ -227,11 +506,53 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({
             </div>
           ))}
 
+          {node.subtype === 'schedule' && (
+            <SchedulePreview
+              interval={config.interval}
+              cron={config.interval === 'Custom (cron)' ? config.cron : undefined}
+              timezone={config.timezone}
+            />
+          )}
+
           {fields.length === 0 && (
             <div className="text-center py-8">
               <p className="text-gray-500">No configuration options available for this node.</p>
             </div>
           )}
+
+          <div className="border-t border-gray-200 pt-4">
+            <button
+              type="button"
+              onClick={() => setShowAdvanced(!showAdvanced)}
+              className="flex items-center space-x-1 text-sm font-medium text-gray-700 hover:text-gray-900"
+            >
+              {showAdvanced ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              <span>Advanced</span>
+            </button>
+            {showAdvanced && (
+              <div className="mt-3 space-y-4">
+                <p className="text-xs text-gray-500">
+                  Retry this node when it fails. The first retry waits the initial backoff and each later one multiplies the wait, randomized by the jitter setting.
+                </p>
+                {advancedFields.map((field) => (
+                  <div key={field.key}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                    {renderField(field)}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {fields.length > 0 && (
+            <div className="bg-gray-50 border border-gray-200 rounded-md p-3 text-xs text-gray-600 space-y-1">
+              <p className="font-medium text-gray-700">Using data from earlier nodes</p>
+              <p><code>{'{{previous_node.field}}'}</code> output of the node connected before this one</p>
+              <p><code>{'{{nodes.node_id.field}}'}</code> or <code>{'{{nodes["Label"].field}}'}</code> any upstream node</p>
+              <p><code>{'{{trigger.field}}'}</code> trigger data, <code>{'{{run.id}}'}</code> run details</p>
+              <p><code>{'{{error.message}}'}</code>, <code>{'{{error.nodeId}}'}</code>, <code>{'{{error.attempts}}'}</code> on an error path</p>
+            </div>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import { NodeRunState, WorkflowNode, WorkflowRunSummary } from '../types/workflow';
+import { listWorkflowRuns } from '../lib/runs';
+import { JsonTree } from './JsonTree';
+
+interface RunInspectorPanelProps {
+  workflowId: string;
+  runId: string | null;
+  node: WorkflowNode | null;
+  nodeState?: NodeRunState;
+  disabled?: boolean; // No other run can be opened while one is executing
+  refreshKey?: string; // The run list is reloaded when this changes
+  onSelectRun: (runId: string) => void;
+  onResume?: (nodeId: string) => void; // Offered on the failed nodes of a failed run
+  onClose: () => void;
+}
+
+const Section: React.FC<{ title: string; value: unknown }> = ({ title, value }) => (
+  <div>
+    <h3 className="text-sm font-medium text-gray-700 mb-1">{title}</h3>
+    <div className="bg-gray-50 rounded-md p-2 overflow-auto max-h-64">
+      {value === null || value === undefined
+        ? <p className="text-xs text-gray-400">Nothing recorded</p>
+        : <JsonTree value={value} />}
+    </div>
+  </div>
+);
+
+export const RunInspectorPanel: React.FC<RunInspectorPanelProps> = ({
+  workflowId,
+  runId,
+  node,
+  nodeState,
+  disabled = false,
+  refreshKey,
+  onSelectRun,
+  onResume,
+  onClose
+}) => {
+  const [runs, setRuns] = useState<WorkflowRunSummary[]>([]);
+  const [runsError, setRunsError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listWorkflowRuns(workflowId)
+      .then(runs => {
+        setRuns(runs);
+        setRunsError(null);
+      })
+      .catch(err => setRunsError(err instanceof Error ? err.message : 'Failed to load runs'));
+  }, [workflowId, refreshKey]);
+
+  const selectedRun = runs.find(run => run.id === runId);
+  const canResume = Boolean(onResume) && !disabled && selectedRun?.status === 'failed' && nodeState?.status === 'failed';
+
+  return (
+    <div className="w-80 bg-white border-l border-gray-200 flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Run Inspector</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <select
+          value={runId ?? ''}
+          onChange={(e) => e.target.value && onSelectRun(e.target.value)}
+          disabled={disabled}
+          className="mt-3 w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+        >
+          <option value="">Select a run</option>
+          {runs.map(run => (
+            <option key={run.id} value={run.id}>
+              {new Date(run.started_at).toLocaleString()} - {run.status}{run.parent_run_id ? ' (resumed)' : ''}
+            </option>
+          ))}
+        </select>
+        {runsError && <p className="text-red-600 text-xs mt-1">{runsError}</p>}
+      </div>
+
+      <div className="flex-1 overflow-auto p-4">
+        {!runId ? (
+          <p className="text-sm text-gray-500">Select a run to see what each node received and produced.</p>
+        ) : !node ? (
+          <p className="text-sm text-gray-500">Click a node on the canvas to inspect it.</p>
+        ) : !nodeState ? (
+          <p className="text-sm text-gray-500">{node.label} has no recorded state in this run.</p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <h3 className="font-medium text-gray-900">{node.label}</h3>
+              <p className="text-xs text-gray-500 mt-1">
+                {nodeState.status}
+                {nodeState.duration_ms !== null && ` · ${nodeState.duration_ms}ms`}
+                {nodeState.attempts !== null && nodeState.attempts > 1 && ` · ${nodeState.attempts} attempts`}
+              </p>
+            </div>
+            {nodeState.error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-2">
+                <p className="text-xs text-red-700 break-words">{nodeState.error}</p>
+              </div>
+            )}
+            {canResume && (
+              <button
+                onClick={() => onResume?.(node.id)}
+                title="Run this node and everything after it again, reusing the outputs of the nodes before it"
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-lg flex items-center justify-center space-x-2 text-sm transition-colors"
+              >
+                <RotateCcw className="w-4 h-4" />
+                <span>Resume from here</span>
+              </button>
+            )}
+            <Section title="Input" value={nodeState.input} />
+            <Section title="Config" value={nodeState.config} />
+            <Section title="Output" value={nodeState.output} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { Search } from 'lucide-react';
+import { WorkflowExecutionLog, WorkflowNode } from '../types/workflow';
+import { RunLogFilters, listRunLogs, matchesRunLogFilters } from '../lib/runLogs';
+
+interface RunLogsPanelProps {
+  runId: string;
+  nodes: Pick<WorkflowNode, 'id' | 'label'>[];
+  liveLogs?: WorkflowExecutionLog[]; // Entries streamed while the run is in progress
+  isLive?: boolean; // Stored logs are reloaded when the run stops being live
+}
+
+export const RunLogsPanel: React.FC<RunLogsPanelProps> = ({ runId, nodes, liveLogs = [], isLive = false }) => {
+  const [filters, setFilters] = useState<RunLogFilters>({ nodeId: '', level: '', search: '' });
+  const [search, setSearch] = useState('');
+  const [logs, setLogs] = useState<WorkflowExecutionLog[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Debounce so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setFilters(current => ({ ...current, search })), 300);
+    return () => clearTimeout(timeoutId);
+  }, [search]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    listRunLogs(runId, filters)
+      .then(page => {
+        if (cancelled) return;
+        setLogs(page.logs);
+        setNextCursor(page.nextCursor);
+      })
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Failed to load logs'))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [runId, filters, isLive]);
+
+  const handleLoadMore = async () => {
+    if (nextCursor === null) return;
+    setLoading(true);
+
+    try {
+      const page = await listRunLogs(runId, filters, nextCursor);
+      setLogs(current => [...current, ...page.logs]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load logs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Once every stored page is loaded, entries streamed after the last one are appended
+  const lastSeq = logs.length > 0 ? logs[logs.length - 1].seq ?? 0 : 0;
+  const liveTail = nextCursor === null && !loading
+    ? liveLogs.filter(log => (log.seq ?? Infinity) > lastSeq && matchesRunLogFilters(log, filters))
+    : [];
+  const displayedLogs = [...logs, ...liveTail];
+
+  return (
+    <div>
+      <div className="flex items-center space-x-2 mb-3">
+        <select
+          value={filters.nodeId}
+          onChange={(e) => setFilters({ ...filters, nodeId: e.target.value })}
+          className="px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All nodes</option>
+          {nodes.map(node => (
+            <option key={node.id} value={node.id}>{node.label}</option>
+          ))}
+        </select>
+        <select
+          value={filters.level}
+          onChange={(e) => setFilters({ ...filters, level: e.target.value as RunLogFilters['level'] })}
+          className="px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All levels</option>
+          <option value="info">Info</option>
+          <option value="warn">Warn</option>
+          <option value="error">Error</option>
+        </select>
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search messages"
+            className="w-full pl-8 pr-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      <div className="bg-gray-50 rounded-lg p-4 max-h-96 overflow-auto">
+        {error && <p className="text-red-600 text-sm mb-2">{error}</p>}
+        {displayedLogs.length > 0 ? (
+          <div className="space-y-2">
+            {displayedLogs.map((log, index) => (
+              <div key={log.seq ?? `live-${index}`} className="flex items-start space-x-3 text-sm">
+                <span className="text-gray-500 font-mono text-xs">
+                  {new Date(log.timestamp).toLocaleTimeString()}
+                </span>
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+                  log.level === 'error' ? 'bg-red-100 text-red-800' :
+                  log.level === 'warn' ? 'bg-yellow-100 text-yellow-800' :
+                  'bg-blue-100 text-blue-800'
+                }`}>
+                  {log.level.toUpperCase()}
+                </span>
+                <span className="text-gray-900 flex-1">{log.message}</span>
+                {log.attempt !== undefined && log.attempt > 1 && (
+                  <span className="text-gray-500 text-xs">attempt {log.attempt}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          !loading && <p className="text-gray-500 text-center">No logs available</p>
+        )}
+        {loading && <p className="text-gray-500 text-center text-sm mt-2">Loading logs...</p>}
+        {nextCursor !== null && !loading && (
+          <button
+            onClick={handleLoadMore}
+            className="mt-3 w-full text-sm text-blue-600 hover:text-blue-700"
+          >
+            Load more
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarClock } from 'lucide-react';
+import { backendFetch } from '../lib/backendClient';
+
+interface SchedulePreviewProps {
+  interval?: string;
+  cron?: string;
+  timezone?: string;
+}
+
+export const SchedulePreview: React.FC<SchedulePreviewProps> = ({ interval, cron, timezone }) => {
+  const [fireTimes, setFireTimes] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!interval && !cron) {
+      setFireTimes([]);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+
+    // Debounce so typing a cron expression doesn't fire a request per keystroke
+    const timeoutId = setTimeout(async () => {
+      const params = new URLSearchParams({
+        interval: interval || '',
+        cron: cron || '',
+        timezone: timezone || 'UTC',
+        count: '5'
+      });
+
+      try {
+        const response = await backendFetch(`/api/schedules/preview?${params}`, {
+          signal: controller.signal
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || `HTTP error! status: ${response.status}`);
+        }
+
+        setFireTimes(result.fireTimes);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setFireTimes([]);
+        setError(err instanceof Error ? err.message : 'Failed to preview schedule');
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    }, 400);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [interval, cron, timezone]);
+
+  if (!interval && !cron) return null;
+
+  const formatFireTime = (fireTime: string) =>
+    new Date(fireTime).toLocaleString(undefined, {
+      timeZone: timezone || 'UTC',
+      weekday: 'short',
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZoneName: 'short'
+    });
+
+  return (
+    <div className="bg-purple-50 border border-purple-200 rounded-md p-3">
+      <div className="flex items-center space-x-2 mb-2">
+        <CalendarClock className="w-4 h-4 text-purple-600" />
+        <p className="text-sm font-medium text-purple-900">Next runs</p>
+        {loading && (
+          <div className="w-3 h-3 border-2 border-purple-600 border-t-transparent rounded-full animate-spin"></div>
+        )}
+      </div>
+      {error ? (
+        <p className="text-red-600 text-xs">{error}</p>
+      ) : fireTimes.length === 0 && !loading ? (
+        <p className="text-xs text-gray-600">This schedule never fires.</p>
+      ) : (
+        <ul className="space-y-1">
+          {fireTimes.map((fireTime) => (
+            <li key={fireTime} className="text-xs text-gray-700 font-mono">
+              {formatFireTime(fireTime)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
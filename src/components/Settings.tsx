@@ -9,6 +9,7 @@ import {
   Palette,
   HelpCircle
 } from 'lucide-react';
+import { CredentialsSettings } from './CredentialsSettings';
 
 export const Settings: React.FC = () => {
   const settingsSections = [
@@ -77,6 +78,8 @@ export const Settings: React.FC = () => {
         </div>
 
         <div className="space-y-6">
+          <CredentialsSettings />
+
           {settingsSections.map((section, sectionIndex) => {
             const Icon = section.icon;
             return (
@@ -5,6 +5,7 @@ import {
   Settings as SettingsIcon,
   Plus,
   Mail,
+  AtSign,
   Webhook,
   Clock,
   MessageSquare,
@@ -42,6 +43,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, onViewChange }) =
     { id: 'slack', label: 'Slack', icon: MessageSquare, color: 'bg-green-500' },
     { id: 'http', label: 'HTTP Request', icon: Send, color: 'bg-orange-500' },
     { id: 'database', label: 'Database', icon: Database, color: 'bg-indigo-500' },
+    { id: 'email', label: 'Send Email', icon: AtSign, color: 'bg-sky-500' },
   ];
 
   const logicNodes = [
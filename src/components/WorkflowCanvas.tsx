@@ -6,6 +6,7 @@ import {
   Settings as SettingsIcon,
   Trash2,
   ExternalLink,
+  History,
   LayoutGrid,
   Undo,
   Redo
@@ -13,7 +14,11 @@ import {
 import { useWorkflowContext } from '../context/WorkflowContext';
 import { WorkflowNode } from './WorkflowNode';
 import { NodeConfigPanel } from './NodeConfigPanel';
-import { WorkflowNode as WorkflowNodeType } from '../types/workflow';
+import { RunInspectorPanel } from './RunInspectorPanel';
+import { WorkflowNode as WorkflowNodeType, WorkflowConnection, NodeRunState } from '../types/workflow';
+import { backendFetch } from '../lib/backendClient';
+import { useRunState } from '../hooks/useRunState';
+import { resumeRun } from '../lib/runs';
 
 interface WorkflowCanvasProps {
   workflowId: string | null;
@@ -27,8 +32,14 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ workflowId, onBa
   const [isExecuting, setIsExecuting] = useState(false);
   const [executionStatus, setExecutionStatus] = useState<string | null>(null);
   const [executionResult, setExecutionResult] = useState<any>(null);
+  // Run shown on the canvas; its progress is streamed from the backend
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const { nodeStates, status: runStatus, error: runStreamError } = useRunState(activeRunId);
+  // While the inspector is open, clicking a node shows what it received and produced in the run
+  const [showInspector, setShowInspector] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [connectingNodeId, setConnectingNodeId] = useState<string | null>(null);
+  const [connectingHandle, setConnectingHandle] = useState<string | undefined>(undefined);
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
   const canvasRef = useRef<HTMLDivElement>(null);
   const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -36,6 +47,42 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ workflowId, onBa
   const [copiedNodes, setCopiedNodes] = useState<WorkflowNodeType[]>([]);
   const [isMultiSelecting, setIsMultiSelecting] = useState(false);
 
+  useEffect(() => {
+    if (!isExecuting) return;
+
+    if (runStreamError) {
+      console.error('Error following run:', runStreamError);
+      setExecutionStatus('Error checking execution status');
+      setIsExecuting(false);
+      return;
+    }
+
+    switch (runStatus?.status) {
+      case 'queued': {
+        const waitingReason = runStatus.waitingFor === 'workflow_limit'
+          ? ' - waiting for another run of this workflow to finish'
+          : runStatus.waitingFor === 'user_limit'
+            ? ' - waiting for one of your other runs to finish'
+            : '';
+        setExecutionStatus(`Queued (Position: ${runStatus.queuePosition})${waitingReason}`);
+        break;
+      }
+      case 'executing':
+        setExecutionStatus('Executing workflow...');
+        break;
+      case 'completed':
+        setExecutionStatus('Execution completed successfully!');
+        setExecutionResult(runStatus);
+        setIsExecuting(false);
+        break;
+      case 'failed':
+        setExecutionStatus(`Execution failed: ${runStatus.error || 'Unknown error'}`);
+        setExecutionResult(runStatus);
+        setIsExecuting(false);
+        break;
+    }
+  }, [isExecuting, runStatus, runStreamError]);
+
   // Grid snapping configuration
   const GRID_SIZE = 20;
 
@@ -124,9 +171,10 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ workflowId, onBa
     }
   }, [workflows, workflowId, updateWorkflow]);
 
-  const handleConnectionStart = useCallback((nodeId: string) => {
+  const handleConnectionStart = useCallback((nodeId: string, sourceHandle?: string) => {
     setIsConnecting(true);
     setConnectingNodeId(nodeId);
+    setConnectingHandle(sourceHandle);
   }, []);
 
   const handleConnectionEnd = useCallback(async (targetNodeId: string) => {
@@ -138,7 +186,7 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ workflowId, onBa
 
     // Check if connection already exists
     const existingConnection = workflow.connections?.find(
-      conn => conn.source === connectingNodeId && conn.target === targetNodeId
+      conn => conn.source === connectingNodeId && conn.target === targetNodeId && conn.sourceHandle === connectingHandle
     );
 
     if (existingConnection) {
@@ -148,9 +196,10 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ workflowId, onBa
     }
 
     // Create new connection
-    const newConnection = {
+    const newConnection: WorkflowConnection = {
       source: connectingNodeId,
-      target: targetNodeId
+      target: targetNodeId,
+      ...(connectingHandle ? { sourceHandle: connectingHandle } : {})
     };
 
     const updatedConnections = [...(workflow.connections || []), newConnection];
@@ -166,7 +215,7 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ workflowId, onBa
 
     setIsConnecting(false);
     setConnectingNodeId(null);
-  }, [isConnecting, connectingNodeId, workflow, updateWorkflow]);
+  }, [isConnecting, connectingNodeId, connectingHandle, workflow, updateWorkflow]);
 
   const handleCanvasMouseMove = useCallback((e: React.MouseEvent) => {
     if (isConnecting && canvasRef.current) {
@@ -417,13 +466,11 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ workflowId, onBa
     setIsExecuting(true);
     setExecutionStatus('Queuing workflow for execution...');
     setExecutionResult(null);
+    setActiveRunId(null);
 
     try {
-      // Get backend URL from environment or use default
-      const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
-      
       // Call backend API to execute workflow
-      const response = await fetch(`${backendUrl}/api/workflows/${workflow.id}/execute`, {
+      const response = await backendFetch(`/api/workflows/${workflow.id}/execute`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -438,44 +485,8 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ workflowId, onBa
       
       if (result.success) {
         setExecutionStatus(`Workflow queued successfully (Position: ${result.queuePosition})`);
-        
-        // Poll for execution status
-        const pollStatus = async (jobId: string) => {
-          try {
-            const statusResponse = await fetch(`${backendUrl}/api/jobs/${jobId}/status`);
-            
-            if (statusResponse.ok) {
-              const statusResult = await statusResponse.json();
-              
-              if (statusResult.status === 'queued') {
-                setExecutionStatus(`Queued (Position: ${statusResult.queuePosition})`);
-                setTimeout(() => pollStatus(jobId), 2000); // Poll every 2 seconds
-              } else if (statusResult.status === 'executing') {
-                setExecutionStatus('Executing workflow...');
-                setTimeout(() => pollStatus(jobId), 1000); // Poll more frequently during execution
-              } else if (statusResult.status === 'completed') {
-                setExecutionStatus('Execution completed successfully!');
-                setExecutionResult(statusResult);
-                setIsExecuting(false);
-              } else if (statusResult.status === 'failed') {
-                setExecutionStatus(`Execution failed: ${statusResult.error || 'Unknown error'}`);
-                setExecutionResult(statusResult);
-                setIsExecuting(false);
-              }
-            } else {
-              console.error(`Status check failed: ${statusResponse.status}`);
-              setExecutionStatus('Error checking execution status');
-              setIsExecuting(false);
-            }
-          } catch (error) {
-            console.error('Error polling status:', error);
-            setExecutionStatus('Error checking execution status');
-            setIsExecuting(false);
-          }
-        };
-        
-        // Start polling after a short delay
-        setTimeout(() => pollStatus(result.jobId), 1000);
+        // Queue position, node states and the outcome are streamed from here on
+        setActiveRunId(result.runId);
       } else {
         setExecutionStatus('Failed to queue workflow');
         setIsExecuting(false);
@@ -487,6 +498,36 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ workflowId, onBa
     }
   };
 
+  // Re-run the inspected run from a failed node; nodes before it keep their outputs
+  const handleResumeRun = async (nodeId: string) => {
+    const parentRunId = activeRunId;
+    if (!parentRunId) return;
+
+    setIsExecuting(true);
+    setExecutionStatus('Queuing resumed run...');
+    setExecutionResult(null);
+    setActiveRunId(null);
+
+    try {
+      const result = await resumeRun(parentRunId, nodeId);
+      setExecutionStatus(`Resumed run queued (Position: ${result.queuePosition})`);
+      setActiveRunId(result.runId);
+    } catch (error) {
+      console.error('Error resuming run:', error);
+      setExecutionStatus(`Execution error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setIsExecuting(false);
+      setActiveRunId(parentRunId);
+    }
+  };
+
+  // A connection was followed in the run once its target started
+  const isConnectionFinished = (connection: WorkflowConnection) => {
+    const source: NodeRunState | undefined = nodeStates[connection.source];
+    const target: NodeRunState | undefined = nodeStates[connection.target];
+    if (!source || !target || target.status === 'pending' || target.status === 'skipped') return false;
+    return connection.sourceHandle === 'error' ? source.status === 'failed' : source.status === 'succeeded';
+  };
+
   const handleSaveWorkflow = () => {
     // Workflows are auto-saved through context when changes are made
     if (error) {
@@ -526,7 +567,26 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ workflowId, onBa
             </button>
             <div>
               <h1 className="text-xl font-semibold text-gray-900">{workflow.name}</h1>
-              <p className="text-sm text-gray-600">{workflow.nodes.length} nodes</p>
+              <div className="flex items-center space-x-3 text-sm text-gray-600">
+                <span>{workflow.nodes.length} nodes</span>
+                <label className="flex items-center space-x-1" title="How many runs of this workflow may execute at the same time">
+                  <span>Concurrent runs:</span>
+                  <select
+                    value={workflow.maxConcurrentRuns ?? ''}
+                    onChange={(e) => updateWorkflow(workflow.id, {
+                      maxConcurrentRuns: e.target.value ? parseInt(e.target.value, 10) : null
+                    })}
+                    className="border border-gray-300 rounded px-1 py-0.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Unlimited</option>
+                    <option value="1">1 (one at a time)</option>
+                    <option value="2">2</option>
+                    <option value="3">3</option>
+                    <option value="5">5</option>
+                    <option value="10">10</option>
+                  </select>
+                </label>
+              </div>
             </div>
           </div>
           
@@ -576,17 +636,20 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ workflowId, onBa
             )}
             {executionResult && (
               <button
-                onClick={() => {
-                  // Show execution details in a modal or expand view
-                  console.log('Execution Result:', executionResult);
-                  alert(`Execution Details:\n${JSON.stringify(executionResult, null, 2)}`);
-                }}
+                onClick={() => setShowInspector(true)}
                 className="text-sm text-blue-600 hover:text-blue-700 flex items-center space-x-1"
               >
                 <ExternalLink className="w-3 h-3" />
                 <span>View Details</span>
               </button>
             )}
+            <button
+              onClick={() => setShowInspector(!showInspector)}
+              className={`${showInspector ? 'bg-gray-700' : 'bg-gray-600'} hover:bg-gray-700 text-white px-3 py-2 rounded-lg flex items-center space-x-2 transition-colors`}
+            >
+              <History className="w-4 h-4" />
+              <span>Runs</span>
+            </button>
             <button
               onClick={handleSaveWorkflow}
               className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
@@ -643,11 +706,17 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ workflowId, onBa
               const targetX = targetNode.x;
               const targetY = targetNode.y + 40;
 
+              const finished = isConnectionFinished(connection);
+              const runClass = finished
+                ? nodeStates[connection.target]?.status === 'running' ? 'executing' : 'completed'
+                : '';
+
               return (
                 <path
                   key={index}
                   d={`M ${sourceX} ${sourceY} C ${sourceX + 50} ${sourceY}, ${targetX - 50} ${targetY}, ${targetX} ${targetY}`}
-                  className="workflow-connection"
+                  className={`workflow-connection ${connection.sourceHandle === 'error' ? 'error' : ''} ${runClass}`}
+                  style={connection.sourceHandle === 'false' && !finished ? { stroke: '#ef4444' } : undefined}
                 />
               );
             }) || []}
@@ -680,7 +749,7 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ workflowId, onBa
               key={node.id}
               node={node}
               isSelected={selectedNode?.id === node.id}
-              isExecuting={false}
+              runState={nodeStates[node.id]}
               isConnecting={isConnecting}
               connectingNodeId={connectingNodeId}
               onSelect={setSelectedNode}
@@ -704,10 +773,30 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ workflowId, onBa
           )}
         </div>
 
+        {/* Run Inspector */}
+        {showInspector && (
+          <RunInspectorPanel
+            workflowId={workflow.id}
+            runId={activeRunId}
+            node={selectedNode}
+            nodeState={selectedNode ? nodeStates[selectedNode.id] : undefined}
+            disabled={isExecuting}
+            refreshKey={runStatus?.status}
+            onSelectRun={(runId) => {
+              setExecutionStatus(null);
+              setExecutionResult(null);
+              setActiveRunId(runId);
+            }}
+            onResume={handleResumeRun}
+            onClose={() => setShowInspector(false)}
+          />
+        )}
+
         {/* Node Configuration Panel */}
-        {selectedNode && (
+        {selectedNode && !showInspector && (
           <NodeConfigPanel
             node={selectedNode}
+            workflowId={workflow.id}
             onConfigChange={(config) => {
               try {
                 const updatedNodes = workflow.nodes.map(node =>
@@ -6,24 +6,30 @@ import {
   MessageSquare, 
   Send, 
   Database,
+  AtSign,
   Settings,
   Trash2,
   GripVertical,
   GitBranch,
   Timer,
   AlertTriangle,
-  Shuffle
+  Shuffle,
+  CheckCircle,
+  XCircle,
+  Loader2,
+  MinusCircle,
+  CircleDashed
 } from 'lucide-react';
-import { WorkflowNode as WorkflowNodeType } from '../types/workflow';
+import { WorkflowNode as WorkflowNodeType, NodeRunState, NodeRunStatus } from '../types/workflow';
 
 interface WorkflowNodeProps {
   node: WorkflowNodeType;
   isSelected: boolean;
-  isExecuting: boolean;
+  runState?: NodeRunState; // State of this node in the current or last run
   onSelect: (node: WorkflowNodeType) => void;
   onMove: (nodeId: string, x: number, y: number) => void;
   onDelete: (nodeId: string) => void;
-  onConnectionStart?: (nodeId: string) => void;
+  onConnectionStart?: (nodeId: string, sourceHandle?: string) => void;
   onConnectionEnd?: (nodeId: string) => void;
   isConnecting?: boolean;
   connectingNodeId?: string;
@@ -37,6 +43,7 @@ const nodeIcons = {
   slack: MessageSquare,
   http: Send,
   database: Database,
+  email: AtSign,
   conditional: GitBranch,
   delay: Timer,
   'error-handler': AlertTriangle,
@@ -50,16 +57,39 @@ const nodeColors = {
   slack: 'bg-green-500',
   http: 'bg-orange-500',
   database: 'bg-indigo-500',
+  email: 'bg-sky-500',
   conditional: 'bg-yellow-500',
   delay: 'bg-pink-500',
   'error-handler': 'bg-red-600',
   transform: 'bg-teal-500'
 };
 
+const runStatusStyles: Record<NodeRunStatus, { icon: typeof CheckCircle; label: string; badge: string; border: string }> = {
+  pending: { icon: CircleDashed, label: 'Pending', badge: 'bg-gray-100 text-gray-600', border: 'border-gray-300' },
+  running: { icon: Loader2, label: 'Running', badge: 'bg-blue-100 text-blue-700', border: 'border-blue-400' },
+  succeeded: { icon: CheckCircle, label: 'Succeeded', badge: 'bg-green-100 text-green-700', border: 'border-green-500' },
+  failed: { icon: XCircle, label: 'Failed', badge: 'bg-red-100 text-red-700', border: 'border-red-500' },
+  skipped: { icon: MinusCircle, label: 'Skipped', badge: 'bg-gray-100 text-gray-500', border: 'border-gray-200' }
+};
+
+// One-line preview of a node's output
+const formatOutput = (output: unknown) => {
+  if (output === null || output === undefined) return '';
+  const text = typeof output === 'string' ? output : JSON.stringify(output);
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+};
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+const conditionalOutputHandles: NonNullable<WorkflowNodeType['outputHandles']> = [
+  { id: 'true', label: 'True', condition: 'true' },
+  { id: 'false', label: 'False', condition: 'false' }
+];
+
 export const WorkflowNode: React.FC<WorkflowNodeProps> = ({
   node,
   isSelected,
-  isExecuting,
+  runState,
   onSelect,
   onMove,
   onDelete,
@@ -73,14 +103,22 @@ export const WorkflowNode: React.FC<WorkflowNodeProps> = ({
 
   const Icon = nodeIcons[node.subtype as keyof typeof nodeIcons] || Settings;
   const colorClass = nodeColors[node.subtype as keyof typeof nodeColors] || 'bg-gray-500';
+  const executionStatus = runState?.status;
+  const statusStyle = executionStatus ? runStatusStyles[executionStatus] : null;
+  const StatusIcon = statusStyle?.icon;
+  const outputPreview = executionStatus === 'succeeded' ? formatOutput(runState?.output) : '';
 
-  // Check if this is a conditional node with multiple outputs
-  const isConditionalNode = node.subtype === 'conditional';
+  // Conditional nodes have a true and a false output; older nodes may not carry outputHandles yet
+  const outputHandles = node.outputHandles && node.outputHandles.length > 0
+    ? node.outputHandles
+    : node.subtype === 'conditional'
+    ? conditionalOutputHandles
+    : [];
 
-  const handleOutputMouseDown = (e: React.MouseEvent) => {
+  const handleOutputMouseDown = (e: React.MouseEvent, sourceHandle?: string) => {
     e.stopPropagation();
     if (onConnectionStart) {
-      onConnectionStart(node.id);
+      onConnectionStart(node.id, sourceHandle);
     }
   };
 
@@ -130,8 +168,8 @@ export const WorkflowNode: React.FC<WorkflowNodeProps> = ({
   return (
     <div
       className={`absolute bg-white rounded-lg border-2 shadow-lg cursor-move select-none transition-all ${
-        isSelected ? 'border-blue-500 shadow-xl' : 'border-gray-200'
-      } ${isDragging ? 'shadow-2xl scale-105' : ''}`}
+        isSelected ? 'border-blue-500 shadow-xl' : statusStyle ? statusStyle.border : 'border-gray-200'
+      } ${isDragging ? 'shadow-2xl scale-105' : ''} ${executionStatus === 'skipped' ? 'opacity-50' : ''}`}
       style={{
         left: node.x,
         top: node.y,
@@ -141,7 +179,7 @@ export const WorkflowNode: React.FC<WorkflowNodeProps> = ({
       onMouseDown={handleMouseDown}
     >
       {/* Execution Indicator */}
-      {isExecuting && (
+      {executionStatus === 'running' && (
         <div className="execution-indicator" />
       )}
 
@@ -209,6 +247,28 @@ export const WorkflowNode: React.FC<WorkflowNodeProps> = ({
         </div>
       </div>
 
+      {/* Run state */}
+      {statusStyle && StatusIcon && runState && (
+        <div className="px-4 py-2 border-t border-gray-200 text-xs space-y-1">
+          <div className="flex items-center justify-between">
+            <span className={`inline-flex items-center space-x-1 px-2 py-0.5 rounded-full font-medium ${statusStyle.badge}`}>
+              <StatusIcon className={`w-3 h-3 ${executionStatus === 'running' ? 'animate-spin' : ''}`} />
+              <span>{statusStyle.label}</span>
+            </span>
+            <span className="text-gray-500">
+              {runState.duration_ms !== null && executionStatus !== 'skipped' && formatDuration(runState.duration_ms)}
+              {runState.attempts !== null && runState.attempts > 1 && ` · ${runState.attempts} attempts`}
+            </span>
+          </div>
+          {outputPreview && (
+            <div className="font-mono text-gray-600 truncate" title={outputPreview}>{outputPreview}</div>
+          )}
+          {executionStatus === 'failed' && runState.error && (
+            <div className="text-red-600 truncate" title={runState.error}>{runState.error}</div>
+          )}
+        </div>
+      )}
+
       {/* Connection Handles */}
       <div 
         className={`node-handle input ${isConnecting && connectingNodeId !== node.id ? 'hover:bg-green-500 hover:scale-150' : ''}`}
@@ -217,20 +277,21 @@ export const WorkflowNode: React.FC<WorkflowNodeProps> = ({
       />
       
       {/* Output handles - conditional nodes have multiple, others have one */}
-      {isConditionalNode ? (
+      {outputHandles.length > 0 ? (
         <>
-          <div 
-            className={`node-handle output ${!isConnecting ? 'hover:bg-blue-700 hover:scale-125' : ''}`}
-            style={{ right: -6, top: '30%' }}
-            onMouseDown={handleOutputMouseDown}
-            title="True path"
-          />
-          <div 
-            className={`node-handle output ${!isConnecting ? 'hover:bg-blue-700 hover:scale-125' : ''}`}
-            style={{ right: -6, top: '70%', backgroundColor: '#ef4444' }}
-            onMouseDown={handleOutputMouseDown}
-            title="False path"
-          />
+          {outputHandles.map((handle, index) => (
+            <div 
+              key={handle.id}
+              className={`node-handle output ${!isConnecting ? 'hover:bg-blue-700 hover:scale-125' : ''}`}
+              style={{
+                right: -6,
+                top: `${((index + 1) * 100) / (outputHandles.length + 1)}%`,
+                ...(handle.condition === 'false' ? { backgroundColor: '#ef4444' } : {})
+              }}
+              onMouseDown={(e) => handleOutputMouseDown(e, handle.id)}
+              title={`${handle.label} path`}
+            />
+          ))}
         </>
       ) : (
         <div 
@@ -239,6 +300,13 @@ export const WorkflowNode: React.FC<WorkflowNodeProps> = ({
           title="Output connection point"
         />
       )}
+
+      {/* Every node can route its failure to an error handler */}
+      <div
+        className={`node-handle error ${!isConnecting ? 'hover:bg-orange-600' : ''}`}
+        onMouseDown={(e) => handleOutputMouseDown(e, 'error')}
+        title="On error path"
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -70,6 +70,7 @@ export const WorkflowProvider: React.FC<WorkflowProviderProps> = ({ children })
         createdAt: record.created_at,
         updatedAt: record.updated_at,
         lastRunAt: record.last_run_at,
+        maxConcurrentRuns: record.max_concurrent_runs ?? null,
         nodes: Array.isArray(record.nodes) ? record.nodes : [],
         connections: Array.isArray(record.connections) ? record.connections : []
       }));
@@ -154,6 +155,7 @@ export const WorkflowProvider: React.FC<WorkflowProviderProps> = ({ children })
         createdAt: data.created_at,
         updatedAt: data.updated_at,
         lastRunAt: data.last_run_at,
+        maxConcurrentRuns: data.max_concurrent_runs ?? null,
         nodes: Array.isArray(data.nodes) ? data.nodes : [],
         connections: Array.isArray(data.connections) ? data.connections : []
       };
@@ -191,6 +193,7 @@ export const WorkflowProvider: React.FC<WorkflowProviderProps> = ({ children })
       if (updates.enabled !== undefined) updateData.enabled = updates.enabled;
       if (updates.nodes !== undefined) updateData.nodes = updates.nodes;
       if (updates.connections !== undefined) updateData.connections = updates.connections;
+      if (updates.maxConcurrentRuns !== undefined) updateData.max_concurrent_runs = updates.maxConcurrentRuns;
 
       const { error: updateError } = await supabase
         .from('workflows')
@@ -297,6 +300,7 @@ export const WorkflowProvider: React.FC<WorkflowProviderProps> = ({ children })
         createdAt: data.created_at,
         updatedAt: data.updated_at,
         lastRunAt: data.last_run_at,
+        maxConcurrentRuns: data.max_concurrent_runs ?? null,
         nodes: Array.isArray(data.nodes) ? data.nodes : [],
         connections: Array.isArray(data.connections) ? data.connections : []
       };
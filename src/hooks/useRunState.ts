@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import { BackendEvent, streamBackendEvents } from '../lib/backendClient';
+import { NodeRunState, RunStatus, WorkflowExecutionLog } from '../types/workflow';
+
+interface RunSnapshot {
+  lastLogSeq: number | null;
+  nodes: NodeRunState[];
+}
+
+/**
+ * Live state of a run: each node's state, the job status and the log entries
+ * written since subscribing (earlier ones are paged from /api/runs/:runId/logs),
+ * streamed from /api/runs/:runId/events until the run has finished.
+ */
+export const useRunState = (runId: string | null) => {
+  const [nodeStates, setNodeStates] = useState<Record<string, NodeRunState>>({});
+  const [logs, setLogs] = useState<WorkflowExecutionLog[]>([]);
+  const [status, setStatus] = useState<RunStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setNodeStates({});
+    setLogs([]);
+    setStatus(null);
+    setError(null);
+    if (!runId) return;
+
+    const controller = new AbortController();
+
+    const handleEvent = ({ type, data }: BackendEvent) => {
+      switch (type) {
+        case 'snapshot': {
+          // Replaces the node states received so far
+          const snapshot = data as RunSnapshot;
+          setNodeStates(Object.fromEntries(snapshot.nodes.map(state => [state.node_id, state])));
+          break;
+        }
+        case 'log': {
+          // A reconnect can replay entries that were already received
+          const entry = data as WorkflowExecutionLog;
+          setLogs(current => entry.seq !== undefined && current.some(log => log.seq === entry.seq)
+            ? current
+            : [...current, entry]);
+          break;
+        }
+        case 'node': {
+          const state = data as NodeRunState;
+          setNodeStates(current => ({ ...current, [state.node_id]: state }));
+          break;
+        }
+        case 'status': {
+          const next = data as RunStatus;
+          setStatus(next);
+          if (next.status === 'completed' || next.status === 'failed') {
+            controller.abort();
+          }
+          break;
+        }
+        case 'error':
+          setError((data as { error: string }).error);
+          break;
+      }
+    };
+
+    streamBackendEvents(`/api/runs/${runId}/events`, handleEvent, controller.signal)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to follow run'));
+
+    return () => controller.abort();
+  }, [runId]);
+
+  return { nodeStates, logs, status, error };
+};
@@ -0,0 +1,91 @@
+import { supabase } from './supabaseClient';
+
+export const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+// Call the backend API with the signed-in user's access token; every /api route requires it
+export const backendFetch = async (path: string, options: RequestInit = {}): Promise<Response> => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  return fetch(`${backendUrl}${path}`, {
+    ...options,
+    headers: {
+      ...(session && { Authorization: `Bearer ${session.access_token}` }),
+      ...options.headers
+    }
+  });
+};
+
+export interface BackendEvent {
+  id: string | null;
+  type: string;
+  data: unknown;
+}
+
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * Read a Server-Sent Events stream from the backend, calling `onEvent` for each event.
+ * EventSource can't send the Authorization header, so the stream is read with fetch.
+ * Dropped connections are resumed with Last-Event-ID until `signal` is aborted;
+ * client errors such as a run that doesn't exist reject instead.
+ */
+export const streamBackendEvents = async (
+  path: string,
+  onEvent: (event: BackendEvent) => void,
+  signal: AbortSignal
+): Promise<void> => {
+  let lastEventId: string | null = null;
+  let clientError: Error | null = null;
+
+  while (!signal.aborted) {
+    try {
+      const response = await backendFetch(path, {
+        headers: {
+          Accept: 'text/event-stream',
+          ...(lastEventId && { 'Last-Event-ID': lastEventId })
+        },
+        signal
+      });
+      if (!response.ok || !response.body) {
+        const result = await response.json().catch(() => ({}));
+        const error = new Error(result.error || `HTTP error! status: ${response.status}`);
+        if (response.status >= 400 && response.status < 500) clientError = error;
+        throw error;
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        // Events are separated by a blank line; lines starting with ':' are comments
+        const frames = buffer.split(/\r?\n\r?\n/);
+        buffer = frames.pop() || '';
+        for (const frame of frames) {
+          const event: BackendEvent = { id: null, type: 'message', data: null };
+          const dataLines: string[] = [];
+          for (const line of frame.split(/\r?\n/)) {
+            if (line.startsWith('id:')) event.id = line.slice(3).trim();
+            else if (line.startsWith('event:')) event.type = line.slice(6).trim();
+            else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+          }
+          if (dataLines.length === 0) continue;
+
+          if (event.id) lastEventId = event.id;
+          event.data = JSON.parse(dataLines.join('\n'));
+          onEvent(event);
+        }
+      }
+    } catch (error) {
+      if (signal.aborted) return;
+      if (clientError) throw clientError;
+      console.error('Event stream error:', error);
+    }
+
+    if (!signal.aborted) {
+      await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS));
+    }
+  }
+};
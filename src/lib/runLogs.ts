@@ -0,0 +1,36 @@
+import { backendFetch } from './backendClient';
+import { WorkflowExecutionLog } from '../types/workflow';
+
+export interface RunLogFilters {
+  nodeId?: string;
+  level?: WorkflowExecutionLog['level'] | '';
+  search?: string;
+}
+
+export interface RunLogPage {
+  logs: WorkflowExecutionLog[];
+  nextCursor: number | null; // Pass as `after` for the next page; null on the last page
+}
+
+// One page of a run's logs in order, optionally filtered by node, level and message text
+export const listRunLogs = async (runId: string, filters: RunLogFilters = {}, after: number | null = null): Promise<RunLogPage> => {
+  const params = new URLSearchParams();
+  if (after !== null) params.set('after', String(after));
+  if (filters.nodeId) params.set('nodeId', filters.nodeId);
+  if (filters.level) params.set('level', filters.level);
+  if (filters.search?.trim()) params.set('search', filters.search.trim());
+
+  const response = await backendFetch(`/api/runs/${runId}/logs?${params}`);
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+  return { logs: result.logs, nextCursor: result.nextCursor };
+};
+
+// Whether a log entry passes the filters, for entries that arrive live
+export const matchesRunLogFilters = (log: WorkflowExecutionLog, filters: RunLogFilters) =>
+  (!filters.nodeId || log.nodeId === filters.nodeId) &&
+  (!filters.level || log.level === filters.level) &&
+  (!filters.search?.trim() || log.message.toLowerCase().includes(filters.search.trim().toLowerCase()));
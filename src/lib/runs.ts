@@ -0,0 +1,30 @@
+import { backendFetch } from './backendClient';
+import { WorkflowRunSummary } from '../types/workflow';
+
+// Most recent runs of a workflow, newest first
+export const listWorkflowRuns = async (workflowId: string): Promise<WorkflowRunSummary[]> => {
+  const response = await backendFetch(`/api/workflows/runs?workflowId=${encodeURIComponent(workflowId)}`);
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+  return result.runs;
+};
+
+// Re-run a failed run from one of its failed nodes, reusing the outputs of the nodes before it
+export const resumeRun = async (runId: string, nodeId: string): Promise<{ runId: string; jobId: string; queuePosition: number }> => {
+  const response = await backendFetch(`/api/runs/${runId}/resume`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ nodeId })
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+  return result;
+};
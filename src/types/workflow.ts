@@ -1,6 +1,6 @@
 export interface WorkflowNode {
   id: string;
-  type: 'trigger' | 'action';
+  type: 'trigger' | 'action' | 'logic';
   subtype: string; // gmail, slack, webhook, conditional, delay, error-handler, transform, etc.
   label: string;
   x: number;
@@ -17,7 +17,7 @@ export interface WorkflowNode {
 export interface WorkflowConnection {
   source: string;
   target: string;
-  sourceHandle?: string; // For nodes with multiple outputs
+  sourceHandle?: string; // For nodes with multiple outputs; 'error' for a node's failure path
   targetHandle?: string; // For nodes with multiple inputs
 }
 
@@ -28,6 +28,7 @@ export interface Workflow {
   createdAt: string;
   updatedAt: string;
   lastRunAt?: string | null;
+  maxConcurrentRuns?: number | null; // null = unlimited, 1 = never run two instances at once
   nodes: WorkflowNode[];
   connections: WorkflowConnection[];
 }
@@ -42,9 +43,92 @@ export interface WorkflowExecution {
 }
 
 export interface WorkflowExecutionLog {
+  seq?: number; // Order of the entry within its run
   nodeId: string;
   timestamp: string;
   level: 'info' | 'warn' | 'error';
   message: string;
   data?: any;
-}
\ No newline at end of file
+  attempt?: number; // Set for nodes with a retry policy: which attempt logged this entry
+}
+
+// Error classes a node's retry policy can retry on
+export type ErrorCategory = 'timeout' | 'network' | 'rate_limit' | 'http_5xx' | 'http_4xx' | 'validation' | 'unknown';
+
+export type NodeExecutionStatus = 'succeeded' | 'failed' | 'skipped';
+
+// Live state of a node during a run; pending and running only occur while the run is in progress
+export type NodeRunStatus = 'pending' | 'running' | NodeExecutionStatus;
+
+// A node's row in workflow_run_nodes
+export interface NodeRunState {
+  node_id: string;
+  status: NodeRunStatus;
+  attempts: number | null;
+  started_at: string | null;
+  completed_at: string | null;
+  duration_ms: number | null;
+  input?: unknown; // What the node received: trigger payload or previous output (and routed error)
+  config?: Record<string, unknown> | null; // Config after templates were resolved, secrets redacted
+  output: unknown;
+  error: string | null;
+  updated_at: string;
+}
+
+// A row of workflow_runs as listed for a workflow
+export interface WorkflowRunSummary {
+  id: string;
+  workflow_id: string;
+  status: 'running' | 'completed' | 'failed';
+  started_at: string;
+  completed_at: string | null;
+  parent_run_id?: string | null; // Failed run this run was resumed from
+}
+
+export interface NodeExecutionResult {
+  nodeId: string;
+  label: string;
+  type: WorkflowNode['type'];
+  subtype: string;
+  duration: number;
+  status: NodeExecutionStatus;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+  attempts?: number;
+  errorCategory?: ErrorCategory;
+  handled?: boolean; // Failure was routed to an error path
+}
+
+// Job status as returned by /api/jobs/:jobId/status and streamed by /api/runs/:runId/events
+export interface RunStatus {
+  status: 'queued' | 'executing' | 'completed' | 'failed';
+  queuePosition?: number;
+  waitingFor?: 'workflow_limit' | 'user_limit' | null;
+  error?: string;
+  results?: NodeExecutionResult[];
+  completedAt?: string;
+  success?: boolean;
+}
+
+export type CredentialType =
+  | 'slack_bot'
+  | 'slack_webhook'
+  | 'http_basic'
+  | 'http_bearer'
+  | 'http_api_key'
+  | 'oauth2_client'
+  | 'postgres'
+  | 'smtp'
+  | 'imap'
+  | 'webhook_secret';
+
+// A stored credential as the browser sees it; secret values never leave the backend
+export interface Credential {
+  id: string;
+  name: string;
+  type: CredentialType;
+  rotated_at: string;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,143 @@
+/*
+  # Create persistent workflow job queue
+
+  1. New Tables
+    - `workflow_jobs`
+      - `id` (uuid, primary key, used as the job id returned to clients)
+      - `workflow_id` (uuid, foreign key to workflows)
+      - `run_id` (uuid, foreign key to workflow_runs)
+      - `user_id` (uuid, for easier querying)
+      - `status` (text: queued, running, completed, failed)
+      - `source` (text: manual, webhook, scheduler, ...)
+      - `payload` (jsonb, trigger data and entry node for the run)
+      - `result` (jsonb, execution result once finished)
+      - `error` (text, failure message)
+      - `attempts` / `max_attempts` (integer, how often a worker claimed the job)
+      - `locked_by` (text, id of the worker holding the lease)
+      - `lease_expires_at` (timestamptz, when an unrenewed lease is considered abandoned)
+      - `queued_at`, `started_at`, `completed_at` (timestamps)
+
+  2. Functions
+    - `requeue_expired_workflow_jobs()` puts jobs whose worker stopped renewing
+      its lease back in the queue, or fails them once they are out of attempts
+    - `claim_workflow_job(worker_id, lease_seconds)` atomically claims the oldest
+      queued job using FOR UPDATE SKIP LOCKED
+    - `extend_workflow_job_lease(job_id, worker_id, lease_seconds)` renews a lease
+
+  3. Security
+    - Enable RLS on `workflow_jobs` table
+    - Users can read their own jobs; only the backend (service role) writes
+    - Queue functions are not callable by API users
+*/
+
+-- Create workflow_jobs table
+CREATE TABLE IF NOT EXISTS workflow_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workflow_id uuid NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+  run_id uuid NOT NULL REFERENCES workflow_runs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  source text NOT NULL DEFAULT 'manual',
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  result jsonb,
+  error text,
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 3,
+  locked_by text,
+  lease_expires_at timestamptz,
+  queued_at timestamptz NOT NULL DEFAULT now(),
+  started_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE workflow_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own workflow jobs"
+  ON workflow_jobs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS workflow_jobs_queued_idx ON workflow_jobs(queued_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS workflow_jobs_lease_idx ON workflow_jobs(lease_expires_at) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS workflow_jobs_workflow_id_idx ON workflow_jobs(workflow_id);
+CREATE INDEX IF NOT EXISTS workflow_jobs_run_id_idx ON workflow_jobs(run_id);
+
+-- Recover jobs abandoned by crashed or stopped workers
+CREATE OR REPLACE FUNCTION requeue_expired_workflow_jobs()
+RETURNS integer AS $$
+DECLARE
+  recovered integer;
+BEGIN
+  WITH expired AS (
+    UPDATE workflow_jobs
+    SET
+      status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'queued' END,
+      error = CASE
+        WHEN attempts >= max_attempts THEN 'Worker stopped responding after ' || attempts || ' attempts'
+        ELSE error
+      END,
+      completed_at = CASE WHEN attempts >= max_attempts THEN now() ELSE NULL END,
+      locked_by = NULL,
+      lease_expires_at = NULL
+    WHERE status = 'running' AND lease_expires_at < now()
+    RETURNING run_id, status
+  ),
+  failed_runs AS (
+    UPDATE workflow_runs
+    SET status = 'failed', completed_at = now()
+    WHERE id IN (SELECT run_id FROM expired WHERE status = 'failed')
+      AND status = 'running'
+  )
+  SELECT count(*) INTO recovered FROM expired;
+
+  RETURN recovered;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Atomically claim the oldest queued job for a worker
+CREATE OR REPLACE FUNCTION claim_workflow_job(p_worker_id text, p_lease_seconds integer)
+RETURNS SETOF workflow_jobs AS $$
+BEGIN
+  PERFORM requeue_expired_workflow_jobs();
+
+  RETURN QUERY
+  UPDATE workflow_jobs
+  SET
+    status = 'running',
+    locked_by = p_worker_id,
+    lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+    attempts = attempts + 1,
+    started_at = COALESCE(started_at, now())
+  WHERE id = (
+    SELECT id
+    FROM workflow_jobs
+    WHERE status = 'queued'
+    ORDER BY queued_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Renew the lease of a job the worker still holds
+CREATE OR REPLACE FUNCTION extend_workflow_job_lease(p_job_id uuid, p_worker_id text, p_lease_seconds integer)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE workflow_jobs
+  SET lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id = p_job_id AND locked_by = p_worker_id AND status = 'running';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the backend may operate the queue
+REVOKE EXECUTE ON FUNCTION requeue_expired_workflow_jobs() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_workflow_job(text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION extend_workflow_job_lease(uuid, text, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,124 @@
+/*
+  # Concurrency limits for the workflow job queue
+
+  1. Modified Tables
+    - `workflows`
+      - `max_concurrent_runs` (integer, nullable) - how many runs of the workflow
+        may execute at once; null means unlimited, 1 serializes the workflow
+
+  2. Functions
+    - `claim_workflow_job(worker_id, lease_seconds, max_runs_per_user)` replaces
+      the previous version and skips jobs whose workflow or user is already at
+      its concurrency limit
+    - `get_workflow_job_queue_position(job_id, max_runs_per_user)` reports where
+      a queued job stands, counting only the jobs that will run before it
+
+  3. Security
+    - Queue functions are not callable by API users
+*/
+
+ALTER TABLE workflows
+  ADD COLUMN IF NOT EXISTS max_concurrent_runs integer CHECK (max_concurrent_runs IS NULL OR max_concurrent_runs > 0);
+
+CREATE INDEX IF NOT EXISTS workflow_jobs_running_idx ON workflow_jobs(workflow_id, user_id) WHERE status = 'running';
+
+-- Whether a queued job may start now given the running jobs of its workflow and user
+CREATE OR REPLACE FUNCTION workflow_job_is_runnable(p_job workflow_jobs, p_max_runs_per_user integer)
+RETURNS boolean AS $$
+  SELECT
+    (
+      w.max_concurrent_runs IS NULL OR (
+        SELECT count(*) FROM workflow_jobs r
+        WHERE r.workflow_id = p_job.workflow_id AND r.status = 'running'
+      ) < w.max_concurrent_runs
+    )
+    AND (
+      p_max_runs_per_user IS NULL OR p_max_runs_per_user <= 0 OR (
+        SELECT count(*) FROM workflow_jobs r
+        WHERE r.user_id = p_job.user_id AND r.status = 'running'
+      ) < p_max_runs_per_user
+    )
+  FROM workflows w
+  WHERE w.id = p_job.workflow_id;
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS claim_workflow_job(text, integer);
+
+-- Atomically claim the oldest queued job that is within its concurrency limits
+CREATE OR REPLACE FUNCTION claim_workflow_job(p_worker_id text, p_lease_seconds integer, p_max_runs_per_user integer DEFAULT NULL)
+RETURNS SETOF workflow_jobs AS $$
+BEGIN
+  -- Serialize claims so two workers can't both take the last free slot of a workflow
+  PERFORM pg_advisory_xact_lock(hashtext('claim_workflow_job'));
+
+  PERFORM requeue_expired_workflow_jobs();
+
+  RETURN QUERY
+  UPDATE workflow_jobs
+  SET
+    status = 'running',
+    locked_by = p_worker_id,
+    lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+    attempts = attempts + 1,
+    started_at = COALESCE(started_at, now())
+  WHERE id = (
+    SELECT j.id
+    FROM workflow_jobs j
+    WHERE j.status = 'queued'
+      AND workflow_job_is_runnable(j, p_max_runs_per_user)
+    ORDER BY j.queued_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+/*
+  Position of a queued job: 1 + the queued jobs ahead of it that will run first,
+  i.e. jobs that can start right now and earlier jobs of the same workflow or
+  user. Jobs ahead that are waiting on their own limits don't hold this one up.
+*/
+CREATE OR REPLACE FUNCTION get_workflow_job_queue_position(p_job_id uuid, p_max_runs_per_user integer DEFAULT NULL)
+RETURNS TABLE (queue_position integer, queue_length integer, waiting_for text) AS $$
+DECLARE
+  job workflow_jobs;
+BEGIN
+  SELECT * INTO job FROM workflow_jobs WHERE id = p_job_id;
+  IF NOT FOUND OR job.status <> 'queued' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (
+      SELECT count(*)::integer + 1
+      FROM workflow_jobs a
+      WHERE a.status = 'queued'
+        AND a.queued_at < job.queued_at
+        AND (
+          a.workflow_id = job.workflow_id
+          OR a.user_id = job.user_id
+          OR workflow_job_is_runnable(a, p_max_runs_per_user)
+        )
+    ),
+    (SELECT count(*)::integer FROM workflow_jobs WHERE status = 'queued'),
+    CASE
+      WHEN workflow_job_is_runnable(job, p_max_runs_per_user) THEN NULL
+      WHEN EXISTS (
+        SELECT 1 FROM workflows w
+        WHERE w.id = job.workflow_id
+          AND w.max_concurrent_runs IS NOT NULL
+          AND (
+            SELECT count(*) FROM workflow_jobs r
+            WHERE r.workflow_id = job.workflow_id AND r.status = 'running'
+          ) >= w.max_concurrent_runs
+      ) THEN 'workflow_limit'
+      ELSE 'user_limit'
+    END;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+REVOKE EXECUTE ON FUNCTION workflow_job_is_runnable(workflow_jobs, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_workflow_job(text, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_workflow_job_queue_position(uuid, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,54 @@
+/*
+  # Email trigger polling state
+
+  1. New Tables
+    - `email_trigger_state`
+      - `workflow_id` (uuid, foreign key to workflows)
+      - `node_id` (text, id of the email trigger node in the workflow)
+      - `mailbox` (text, mailbox path that was polled)
+      - `uid_validity` (bigint, UIDVALIDITY of the mailbox when `last_uid` was recorded)
+      - `last_uid` (bigint, highest message UID already handled)
+      - `last_polled_at` (timestamp)
+      - `last_error` (text, error from the last poll, if any)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `email_trigger_state` table
+    - Users can read the state of triggers in their own workflows
+    - Only the backend (service role) writes
+*/
+
+-- Create email_trigger_state table
+CREATE TABLE IF NOT EXISTS email_trigger_state (
+  workflow_id uuid NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+  node_id text NOT NULL,
+  mailbox text NOT NULL,
+  uid_validity bigint NOT NULL,
+  last_uid bigint NOT NULL DEFAULT 0,
+  last_polled_at timestamptz,
+  last_error text,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (workflow_id, node_id)
+);
+
+-- Enable RLS
+ALTER TABLE email_trigger_state ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view email trigger state of their own workflows"
+  ON email_trigger_state
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM workflows
+      WHERE workflows.id = email_trigger_state.workflow_id
+        AND workflows.user_id = auth.uid()
+    )
+  );
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_email_trigger_state_updated_at
+  BEFORE UPDATE ON email_trigger_state
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
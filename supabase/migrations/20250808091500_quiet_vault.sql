@@ -0,0 +1,59 @@
+/*
+  # Credentials vault
+
+  1. New Tables
+    - `credentials`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `name` (text, shown in the credential picker)
+      - `type` (text: slack_bot, slack_webhook, http_basic, http_bearer, http_api_key,
+        oauth2_client, postgres, smtp, imap)
+      - `encrypted_data` (text, AES-256-GCM ciphertext of the secret fields, encrypted
+        by the backend with CREDENTIALS_ENCRYPTION_KEY)
+      - `rotated_at` (timestamp, when the secret was last replaced)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `credentials` table
+    - Users can see the name and type of their own credentials, never `encrypted_data`
+    - Only the backend (service role) creates, rotates and deletes credentials
+*/
+
+-- Create credentials table
+CREATE TABLE IF NOT EXISTS credentials (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  type text NOT NULL CHECK (type IN (
+    'slack_bot', 'slack_webhook', 'http_basic', 'http_bearer', 'http_api_key',
+    'oauth2_client', 'postgres', 'smtp', 'imap'
+  )),
+  encrypted_data text NOT NULL,
+  rotated_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE credentials ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own credentials"
+  ON credentials
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- API users may read every column except the ciphertext
+REVOKE ALL ON credentials FROM anon, authenticated;
+GRANT SELECT (id, user_id, name, type, rotated_at, created_at, updated_at) ON credentials TO authenticated;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS credentials_user_id_idx ON credentials(user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_credentials_updated_at
+  BEFORE UPDATE ON credentials
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,81 @@
+/*
+  # Per-node run state for live run visualization
+
+  1. New Tables
+    - `workflow_run_nodes`
+      - `id` (uuid, primary key)
+      - `run_id` (uuid, foreign key to workflow_runs)
+      - `workflow_id` (uuid, foreign key to workflows)
+      - `user_id` (uuid, for easier querying and RLS)
+      - `node_id` (text, id of the node in the workflow definition)
+      - `status` (text: pending, running, succeeded, failed, skipped)
+      - `attempts` (integer, attempts used by the node's retry policy)
+      - `started_at`, `completed_at` (timestamps)
+      - `duration_ms` (integer)
+      - `output` (jsonb, the node's result, redacted and capped in size)
+      - `error` (text, failure message)
+      - `updated_at` (timestamp)
+
+  2. Realtime
+    - `workflow_run_nodes` and `workflow_runs` are added to the `supabase_realtime`
+      publication so the canvas can follow a run as its nodes change state
+
+  3. Security
+    - Enable RLS on `workflow_run_nodes` table
+    - Users can read the node states of their own runs; only the backend (service role) writes
+*/
+
+-- Create workflow_run_nodes table
+CREATE TABLE IF NOT EXISTS workflow_run_nodes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES workflow_runs(id) ON DELETE CASCADE,
+  workflow_id uuid NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  node_id text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed', 'skipped')),
+  attempts integer,
+  started_at timestamptz,
+  completed_at timestamptz,
+  duration_ms integer,
+  output jsonb,
+  error text,
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (run_id, node_id)
+);
+
+-- Enable RLS
+ALTER TABLE workflow_run_nodes ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own workflow run nodes"
+  ON workflow_run_nodes
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes (run_id is covered by the unique constraint)
+CREATE INDEX IF NOT EXISTS workflow_run_nodes_user_id_idx ON workflow_run_nodes(user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_workflow_run_nodes_updated_at
+  BEFORE UPDATE ON workflow_run_nodes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Publish node state and run status changes over Realtime
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'workflow_run_nodes'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE workflow_run_nodes;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'workflow_runs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE workflow_runs;
+  END IF;
+END $$;
@@ -0,0 +1,83 @@
+/*
+  # Append-only run log storage
+
+  1. New Tables
+    - `workflow_run_logs`
+      - `seq` (bigint identity, primary key; orders the entries of a run)
+      - `run_id` (uuid, foreign key to workflow_runs)
+      - `user_id` (uuid, for easier querying and RLS)
+      - `node_id` (text, node the entry is about, if any)
+      - `level` (text: info, warn, error)
+      - `message` (text)
+      - `data` (jsonb, redacted details)
+      - `attempt` (integer, retry attempt that logged the entry)
+      - `logged_at` (timestamp)
+
+  2. Changes
+    - Existing `workflow_runs.logs` arrays are copied into `workflow_run_logs`;
+      the column is no longer written
+
+  3. Security
+    - Enable RLS on `workflow_run_logs` table
+    - Users can read the logs of their own runs; only the backend (service role) writes
+    - Entries can't be updated once written
+*/
+
+-- Create workflow_run_logs table
+CREATE TABLE IF NOT EXISTS workflow_run_logs (
+  seq bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  run_id uuid NOT NULL REFERENCES workflow_runs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  node_id text,
+  level text NOT NULL CHECK (level IN ('info', 'warn', 'error')),
+  message text NOT NULL,
+  data jsonb,
+  attempt integer,
+  logged_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE workflow_run_logs ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own workflow run logs"
+  ON workflow_run_logs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS workflow_run_logs_run_id_seq_idx ON workflow_run_logs(run_id, seq);
+CREATE INDEX IF NOT EXISTS workflow_run_logs_user_id_idx ON workflow_run_logs(user_id);
+
+-- Log entries are append-only
+CREATE OR REPLACE FUNCTION prevent_workflow_run_log_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'workflow_run_logs entries are append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_workflow_run_logs_update
+  BEFORE UPDATE ON workflow_run_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_workflow_run_log_update();
+
+-- Copy the logs of existing runs, keeping their order
+INSERT INTO workflow_run_logs (run_id, user_id, node_id, level, message, data, attempt, logged_at)
+SELECT
+  runs.id,
+  runs.user_id,
+  entry.value->>'nodeId',
+  CASE
+    WHEN entry.value->>'level' IN ('info', 'warn', 'error') THEN entry.value->>'level'
+    WHEN entry.value->>'level' = 'warning' THEN 'warn'
+    ELSE 'info'
+  END,
+  COALESCE(entry.value->>'message', ''),
+  entry.value->'data',
+  (entry.value->>'attempt')::integer,
+  COALESCE((entry.value->>'timestamp')::timestamptz, runs.started_at, now())
+FROM workflow_runs runs
+CROSS JOIN LATERAL jsonb_array_elements(COALESCE(runs.logs, '[]'::jsonb)) WITH ORDINALITY AS entry(value, position)
+ORDER BY runs.started_at, runs.id, entry.position;
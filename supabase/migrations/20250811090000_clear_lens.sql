@@ -0,0 +1,18 @@
+/*
+  # Node input and config snapshots
+
+  1. Modified Tables
+    - `workflow_run_nodes`
+      - `input` (jsonb, nullable) - data the node received: the trigger payload
+        for triggers, otherwise the previous node's output and, on an error
+        path, the error routed to it
+      - `config` (jsonb, nullable) - the node's config after templates were
+        resolved, with secrets redacted
+
+  2. Notes
+    - Existing rows keep null snapshots
+*/
+
+ALTER TABLE workflow_run_nodes
+  ADD COLUMN IF NOT EXISTS input jsonb,
+  ADD COLUMN IF NOT EXISTS config jsonb;
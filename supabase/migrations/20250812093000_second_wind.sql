@@ -0,0 +1,19 @@
+/*
+  # Resumed runs
+
+  1. Modified Tables
+    - `workflow_runs`
+      - `parent_run_id` (uuid, nullable) - failed run this run was resumed from
+      - `resumed_from_node_id` (text, nullable) - node the run was resumed at;
+        it and everything downstream of it ran again, earlier nodes kept the
+        outputs stored for the parent run
+
+  2. Indexes
+    - `parent_run_id`, to find the runs resumed from a run
+*/
+
+ALTER TABLE workflow_runs
+  ADD COLUMN IF NOT EXISTS parent_run_id uuid REFERENCES workflow_runs(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS resumed_from_node_id text;
+
+CREATE INDEX IF NOT EXISTS workflow_runs_parent_run_id_idx ON workflow_runs(parent_run_id);
@@ -0,0 +1,25 @@
+/*
+  # Stop publishing run tables to Realtime
+
+  1. Realtime
+    - `workflow_run_nodes` and `workflow_runs` are removed from the
+      `supabase_realtime` publication; runs are followed through the backend's
+      event stream (`/api/runs/:runId/events`) and nothing subscribes to them
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'workflow_run_nodes'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE workflow_run_nodes;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'workflow_runs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE workflow_runs;
+  END IF;
+END $$;
@@ -0,0 +1,14 @@
+/*
+  # Webhook signing secrets in the credentials vault
+
+  1. Changes
+    - `credentials.type` also accepts `webhook_secret`, so webhook trigger nodes
+      keep their HMAC signing secret in the vault instead of in the node config
+*/
+
+ALTER TABLE credentials DROP CONSTRAINT IF EXISTS credentials_type_check;
+
+ALTER TABLE credentials ADD CONSTRAINT credentials_type_check CHECK (type IN (
+  'slack_bot', 'slack_webhook', 'http_basic', 'http_bearer', 'http_api_key',
+  'oauth2_client', 'postgres', 'smtp', 'imap', 'webhook_secret'
+));